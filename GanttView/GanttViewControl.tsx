@@ -1,4 +1,5 @@
 import * as React from "react";
+import * as dayjs from "dayjs";
 
 export interface IGanttViewControlProps {
   name?: string;
@@ -7,17 +8,144 @@ export interface IGanttViewControlProps {
   currentDate: Date;
   expandDetails: boolean;
   adjustableEndDate?: boolean;
+  adjustableStartDate?: boolean; // enables start-edge drag and whole-bar moves
+  snapUnit?: SnapUnit; // granularity bar edits snap to
+  rollupProgress?: boolean; // parents show duration-weighted progress of their children
+  rollupDates?: boolean; // parents span the min start / max end of their descendants
+  showAssigned?: boolean; // sticky "Assigned" column after Start/End
+  assignedLabel?: AssignedLabelMode; // owner name drawn inside or beside each bar
+  groupBy?: GroupByMode; // initial swimlane grouping; can be changed in the header bar
+  showCriticalPath?: boolean; // initial state of the critical path toggle
+  fitToWindow?: boolean; // initial timeline range: ganttStartDate-ganttEndDate instead of the data span
+  // called (debounced) when the visible part of the timeline changes by scrolling or zooming
+  onVisibleRangeChange?: (start: Date, end: Date) => void;
+  loadStatus?: LoadStatus; // progress / truncation notice in the header bar
+  viewState?: GanttViewState; // applied on mount and whenever a new object is passed
+  onViewStateChange?: (viewState: GanttViewState) => void; // debounced
+  // called when the computed slack changes; one entry per linked leaf row, displayed or not
+  onCriticalPathChange?: (items: CriticalPathItem[]) => void;
   columnViewCount?: number; // how many timeline columns to show at once
   fontColor?: string;
   fontSize?: number; // in px
   data: GanttRow[];
-  colors?: string[]; // [project, tender]
+  rowTypes?: RowTypeStyle[]; // legend / colour order; bars of other types use the first colour
+  formatRules?: FormatRule[]; // conditional bar styles, evaluated in order
+  totalsTypes?: string[]; // row types shown in the totals; all configured types when empty
+  totalsMode?: TotalsMode; // what the totals footer and banner add up
+  weekStart?: number; // first day of week, 0 = Sunday ... 6 = Saturday; defaults to Monday
+  weekLabel?: WeekLabelMode; // week column text
+  showResourceLoad?: boolean; // footer histogram of load per assigned person
+  resourceLoadMode?: ResourceLoadMode;
+  resourceCapacity?: number; // per person, in resourceLoadMode units; 0 = no threshold
   selectedId?: string; // currently selected row id (for highlight)
-  onEndDateChange?: (rowId: string, newDate: Date) => void; // optional callback
+  // optional callback; only the edited dates are present in the change
+  onDatesChange?: (rowId: string, change: BarDateChange) => void;
   // onSelect provides internal row uid (record guid) and source data id from Items['id']
   onSelect?: (rowUid: string, dataId?: string, rowType?: string | null) => void;
   showFilters?: boolean;
   filtersText?: string;
+  strings?: GanttStrings; // UI text; English when omitted
+  locale?: string; // BCP 47 tag for month names and numbers; the browser's when omitted
+  displayDateFormat?: string; // dayjs format for dates; the locale's numeric date when omitted
+}
+
+// English UI text. index.ts replaces each entry with the resx string "<Key>_Text"
+// (e.g. SortBy_Text) for the user's language; {0}, {1} are filled in by formatText.
+export const DEFAULT_STRINGS = {
+  projectTender: "Project / Tender",
+  startDate: "Start Date",
+  endDate: "End Date",
+  assigned: "Assigned",
+  sortBy: "Sort by {0}",
+  resizeColumn: "Resize {0} column",
+  dragToResize: "Drag to resize column",
+  expandItem: "Expand {0}",
+  collapseItem: "Collapse {0}",
+  blank: "Blank",
+  invalid: "Invalid",
+  notValidDate: "Not a valid date: \"{0}\"",
+  startDateInvalid: "Start date \"{0}\" is not a valid date",
+  endDateInvalid: "End date \"{0}\" is not a valid date",
+  storedDate: "Stored: {0}",
+  storedRange: "Stored: {0} - {1}",
+  assignedTo: "Assigned: {0}",
+  progressPercent: "Progress: {0}%",
+  slackDay: "Slack: {0} day",
+  slackDays: "Slack: {0} days",
+  critical: "(critical)",
+  violates: "Violates {0} after {1}",
+  adjustStartDate: "Adjust start date",
+  adjustEndDate: "Adjust end date",
+  outsideTimeline: "{0}: {1} - {2} (outside the timeline)",
+  totals: "Totals",
+  totalsLabel: "Totals {0}",
+  resourceLoad: "Resource load",
+  capacity: "(capacity {0})",
+  overCapacity: "(over capacity)",
+  loadItem: "{0} item",
+  loadItems: "{0} items",
+  durationDays: "{0}d",
+  appliedFilter: "Applied filter:",
+  groupBy: "Group by",
+  groupNone: "None",
+  groupAssigned: "Assigned",
+  groupRowType: "Row type",
+  groupStartYear: "Start year",
+  unassigned: "Unassigned",
+  unknownType: "Unknown",
+  noStartDate: "No start date",
+  criticalPath: "Critical path",
+  fitToData: "Fit to data",
+  fitToDataTitle: "Show the full date range of the data",
+  fitToWindow: "Fit to window",
+  fitToWindowTitle: "Show {0} - {1}",
+  expandAll: "Expand all",
+  collapseAll: "Collapse all",
+  zoomYear: "Year",
+  zoomQuarter: "Quarter",
+  zoomMonth: "Month",
+  zoomWeek: "Week",
+  zoomDay: "Day",
+  quarterLabel: "Q{0} {1}",
+  weekNumber: "W{0}",
+  weekStarts: "{0}, starts {1}",
+  timelineOverview: "Timeline overview",
+  loadedCount: "Loaded {0}",
+  loadedOfTotal: "Loaded {0} of ~{1}",
+  truncatedCount: "Showing the first {0} records (maxRecords)",
+  truncatedOfTotal: "Showing the first {0} of ~{1} records (maxRecords)",
+  truncatedTitle: "Raise maxRecords to load the remaining records",
+};
+export type GanttStrings = Record<keyof typeof DEFAULT_STRINGS, string>;
+
+// A row type drawn as bars, with its legend label and colour
+export interface RowTypeStyle {
+  type: string; // normalized rowType value, e.g. "bid"
+  label: string;
+  color: string;
+}
+
+// count: rows; duration: days covered (clipped per segment); sum: totalsValue
+export type TotalsMode = "count" | "duration" | "sum";
+
+export type FormatCondition =
+  | "overdue" // ends before currentDate and progress < 100
+  | "startsWithin" // starts between currentDate and currentDate + days
+  | "missingStart"
+  | "missingEnd"
+  | "field"; // extra dataset column equals / contains a value
+
+// A conditional formatting rule; the first matching rule wins for each style
+export interface FormatRule {
+  name: string; // legend label
+  when: FormatCondition;
+  days?: number; // startsWithin
+  column?: string; // field: dataset column name
+  equals?: string; // field: case-insensitive match
+  contains?: string; // field: case-insensitive substring
+  color?: string; // bar fill
+  border?: string; // bar outline
+  icon?: string; // short text / emoji shown before the row name
 }
 
 type GanttRow = {
@@ -27,35 +155,235 @@ type GanttRow = {
   assigned: string | null;
   startDate: Date | null;
   endDate: Date | null;
+  dateErrors?: { startDate?: string; endDate?: string }; // dataset text that could not be read as a date
   rowType: string | null;
   sourceRowType?: string | null; // original dataset value for rowType (pre-normalization)
-  progress: number | null;
+  progress: number | null; // percent complete, 0-100
   parentId: string;
-  level: number | null;
-  milestones: GanttRow[];
+  predecessors?: GanttDependency[];
+  fields?: Record<string, string>; // extra dataset columns referenced by formatRules
+  totalsValue?: number | null; // numeric column summed in "sum" totals mode
+};
+
+export type DependencyType = "FS" | "SS" | "FF" | "SF";
+
+// A link from a predecessor (by its Items['id']) to the row holding it; lag is in days
+export type GanttDependency = { id: string; type: DependencyType; lag: number };
+
+// Slack of a scheduled row (days), keyed by the row's internal id
+export type CriticalPathItem = {
+  rowId: string;
+  slack: number;
+  critical: boolean;
+};
+
+// A dependency resolved to two rows, with whether the successor breaks the constraint
+interface ResolvedDependency {
+  from: GanttRow;
+  to: GanttRow;
+  type: DependencyType;
+  lag: number;
+  violated: boolean;
+}
+
+// One person's load within a timeline segment, with the rows that contribute to it
+interface ResourceLoad {
+  person: string;
+  load: number;
+  rows: GanttRow[];
+}
+
+// Measured row positions (relative to the table) used to draw connector arrows
+interface RowLayout {
+  rows: Record<string, { top: number; height: number }>;
+  timelineLeft: number;
+  timelineWidth: number;
+  signature: string;
+}
+
+export type SnapUnit = "auto" | "day" | "week" | "month";
+// number: "W12"; startDate: "18 Mar"; both: "W12 18 Mar"
+export type WeekLabelMode = "number" | "startDate" | "both";
+// data: timeline spans every row; window: ganttStartDate-ganttEndDate, clipping rows outside
+export type TimelineFit = "data" | "window";
+// Continuous zoom multiplier applied on top of the zoom level's column width
+const MIN_ZOOM_SCALE = 0.25;
+const MAX_ZOOM_SCALE = 16;
+export type ZoomLevel = "day" | "week" | "month" | "quarter" | "year";
+const ZOOM_LABEL_KEYS: Record<ZoomLevel, keyof GanttStrings> = {
+  day: "zoomDay",
+  week: "zoomWeek",
+  month: "zoomMonth",
+  quarter: "zoomQuarter",
+  year: "zoomYear",
 };
+// items: peak number of concurrent items; days: days of work in the segment
+export type ResourceLoadMode = "items" | "days";
+// Row / column windowing: above these counts only the part near the viewport is rendered
+const VIRTUAL_ROW_THRESHOLD = 150;
+const VIRTUAL_COL_THRESHOLD = 60;
+// Rows / columns rendered beyond the viewport; the window moves in steps of this size
+const ROW_OVERSCAN = 20;
+const COL_OVERSCAN = 8;
+// Overview strip: rows are spread over lanes and snapped to this many columns across the range
+const OVERVIEW_LANES = 6;
+const OVERVIEW_BUCKETS = 240;
+
+// Numbers each mounted control so SVG ids stay unique with several instances on a screen
+let instanceCount = 0;
+
+export type AssignedLabelMode = "none" | "inside" | "beside";
+
+// Dataset paging progress reported by the host
+export interface LoadStatus {
+  loaded: number; // records received so far
+  total: number | null; // record count reported by the source, when known
+  loading: boolean;
+  truncated: boolean; // maxRecords was reached with records left over
+  maxRecords: number;
+}
+
+export type GroupByMode = "none" | "assigned" | "rowType" | "startYear";
+
+export type SortField = "name" | "startDate" | "endDate" | "assigned";
+
+// User-adjustable view settings, saved with setControlState and exposed as the viewState JSON
+export interface GanttViewState {
+  zoomLevel?: ZoomLevel;
+  zoomScale?: number;
+  timelineFit?: TimelineFit;
+  sortField?: SortField;
+  sortDir?: "asc" | "desc";
+  nameWidth?: number;
+  groupBy?: GroupByMode;
+  showCriticalPath?: boolean;
+  scrollDate?: string; // yyyy-MM-dd of the first visible day
+}
+
+export type BarDateChange = { startDate?: Date; endDate?: Date };
 
-interface EditingEndState {
+// "end" and "start" drag one edge of the bar, "move" shifts the whole bar in time
+type BarEditMode = "end" | "start" | "move";
+
+interface EditingBarState {
   rowId: string;
+  mode: BarEditMode;
   startX: number;
   rowLeftPct: number;
   startWidthPct: number;
+  liveLeftPct: number;
   liveWidthPct: number;
+  liveStart: Date;
+  liveEnd: Date;
   containerPx: number;
   winStart: Date;
   winEnd: Date;
+  origStart: Date;
+  origEnd: Date;
+}
+
+interface GanttGroup {
+  key: string;
+  label: string;
+  rows: GanttRow[];
+  start: Date | null; // min start of the group's rows
+  end: Date | null; // max end of the group's rows
+  totals: Record<string, number>; // per row type, see computeTypeTotals
+}
+
+// A rendered body row: either a swimlane header or a data row at its display indent
+type DisplayRow =
+  | { kind: "group"; group: GanttGroup }
+  | { kind: "row"; row: GanttRow; level: number; hasChildren: boolean };
+
+// Parent span derived from its descendants (rollupDates); mismatch when the stored dates differ
+type RolledSpan = { start: Date | null; end: Date | null; mismatch: boolean };
+
+/**
+ * Everything rendering reads from the dataset, derived once by buildModel and kept until
+ * the data, sort, grouping, collapsed rows, saved date edits or timeline segments change.
+ * A drag in progress is not part of it; rowBar overlays the dragged row and getLiveRollup
+ * the roll-ups that depend on it.
+ * Rows from props are never modified.
+ */
+interface GanttModel {
+  byId: Record<string, GanttRow>;
+  childrenMap: Record<string, GanttRow[]>; // rows (including milestones) by parentId
+  milestones: Record<string, GanttRow[]>; // milestone rows drawn on their parent's row
+  displayRows: DisplayRow[];
+  progress: Record<string, number>;
+  rolledDates: Record<string, RolledSpan>;
+  totals: Record<string, number>; // whole dataset: header banner and footer
+  segmentTotals: Record<string, number>[]; // one per timeline segment: footer cells
+  displayIndex: Record<string, number>; // data row id -> position among displayRows
+  dependencies: ResolvedDependency[];
+  violations: Record<string, ResolvedDependency[]>; // broken links by successor row id
+  criticalPath: Record<string, CriticalPathItem>;
+  loadRows: GanttRow[]; // leaf task rows counted in the resource load
+  resourceLoads: Record<number, ResourceLoad[]>; // by segment index, filled by getResourceLoads
+}
+
+// Roll-ups touched by the bar being dragged, redone from its live dates; see getLiveRollup
+interface LiveRollup {
+  rolledDates: Record<string, RolledSpan>; // ancestors of the dragged row
+  progress: Record<string, number>; // ancestors of the dragged row
+  groupSpans: Record<string, { start: Date | null; end: Date | null }>; // its swimlane
+}
+
+// A timeline column; weekend is only set in day view
+interface TimelineSegment {
+  start: Date;
+  label: string;
+  title?: string;
+  weekend?: boolean;
+}
+
+interface TimelineBounds {
+  start: Date;
+  end: Date;
+  months: Date[];
+}
+
+// Pixel widths of the timeline columns for the current container and zoom
+interface ColumnLayout {
+  fixedWidth: number; // sticky detail columns
+  perSegWidths: number[];
+  tableWidthPx: number;
+  timelineWidth: number;
+  start: Date;
+  end: Date;
+  virtualCols: boolean; // only the columns near the viewport are rendered
+}
+
+// Rendered slice of the display rows and timeline columns (ends exclusive)
+interface RenderWindow {
+  rowStart: number;
+  rowEnd: number;
+  colStart: number;
+  colEnd: number;
 }
 
 interface IGanttViewState {
   nameWidth: number;
   startWidth: number;
   endWidth: number;
-  editingEnd: EditingEndState | null;
+  assignedWidth: number;
+  editingBar: EditingBarState | null;
+  startDateOverrides: Record<string, Date>;
   endDateOverrides: Record<string, Date>;
-  zoomLevel: "month" | "week" | "year";
+  zoomLevel: ZoomLevel;
   containerWidth: number;
-  sortField: "name" | "startDate" | "endDate";
+  sortField: SortField;
   sortDir: "asc" | "desc";
+  groupBy: GroupByMode;
+  collapsedGroups: Record<string, boolean>; // keyed by groupBy + ":" + group key
+  collapsedRows: Record<string, boolean>; // parent row ids whose descendants are hidden
+  rowLayout: RowLayout | null;
+  showCriticalPath: boolean;
+  timelineFit: TimelineFit;
+  zoomScale: number;
+  renderWindow: RenderWindow | null; // null until the first scroll measurement
+  rowHeight: number; // measured height of a data row, sizes the windowing spacers
 }
 
 export class GanttViewControl extends React.Component<
@@ -66,13 +394,108 @@ export class GanttViewControl extends React.Component<
     nameWidth: 250,
     startWidth: 100, // increased by 10px
     endWidth: 100, // increased by 10px
-    editingEnd: null,
+    assignedWidth: 120,
+    editingBar: null,
+    startDateOverrides: {},
     endDateOverrides: {},
     zoomLevel: "year",
     containerWidth: 0,
     sortField: "name",
     sortDir: "asc",
+    groupBy: this.props.groupBy || "none",
+    collapsedGroups: {},
+    collapsedRows: {},
+    rowLayout: null,
+    showCriticalPath: !!this.props.showCriticalPath,
+    timelineFit: this.props.fitToWindow ? "window" : "data",
+    zoomScale: 1,
+    renderWindow: null,
+    rowHeight: 33,
+    ...this.viewStateToState(this.props.viewState),
   };
+  private lastCriticalSignature?: string;
+  private lastCriticalPath?: Record<string, CriticalPathItem>;
+  // First visible day to scroll to once the restored layout has rendered
+  private pendingScrollDate?: Date = this.parseScrollDate(this.props.viewState);
+  private lastViewStateSignature?: string;
+  private viewStateTimer?: number;
+
+  /**
+   * Picks the valid settings out of a saved view state; anything unrecognised is ignored.
+   */
+  private viewStateToState(vs?: GanttViewState): Partial<IGanttViewState> {
+    const result: Partial<IGanttViewState> = {};
+    if (!vs || typeof vs !== "object") return result;
+    const oneOf = <T extends string>(v: unknown, allowed: T[]): T | undefined =>
+      typeof v === "string" && allowed.indexOf(v as T) >= 0 ? (v as T) : undefined;
+    const zoomLevel = oneOf(vs.zoomLevel, ["day", "week", "month", "quarter", "year"]);
+    if (zoomLevel) result.zoomLevel = zoomLevel;
+    if (typeof vs.zoomScale === "number" && vs.zoomScale > 0)
+      result.zoomScale = Math.min(MAX_ZOOM_SCALE, Math.max(MIN_ZOOM_SCALE, vs.zoomScale));
+    const timelineFit = oneOf(vs.timelineFit, ["data", "window"]);
+    if (timelineFit) result.timelineFit = timelineFit;
+    const sortField = oneOf(vs.sortField, ["name", "startDate", "endDate", "assigned"]);
+    if (sortField) result.sortField = sortField;
+    const sortDir = oneOf(vs.sortDir, ["asc", "desc"]);
+    if (sortDir) result.sortDir = sortDir;
+    if (typeof vs.nameWidth === "number")
+      result.nameWidth = Math.min(700, Math.max(150, vs.nameWidth));
+    const groupBy = oneOf(vs.groupBy, ["none", "assigned", "rowType", "startYear"]);
+    if (groupBy) result.groupBy = groupBy;
+    if (typeof vs.showCriticalPath === "boolean")
+      result.showCriticalPath = vs.showCriticalPath;
+    return result;
+  }
+
+  private parseScrollDate(vs?: GanttViewState): Date | undefined {
+    const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec((vs && vs.scrollDate) || "");
+    return m ? new Date(+m[1], +m[2] - 1, +m[3]) : undefined;
+  }
+
+  private getViewState(): GanttViewState {
+    const visible = this.getVisibleRange();
+    const d = visible ? visible.start : undefined;
+    return {
+      zoomLevel: this.state.zoomLevel,
+      zoomScale: Math.round(this.state.zoomScale * 1000) / 1000,
+      timelineFit: this.state.timelineFit,
+      sortField: this.state.sortField,
+      sortDir: this.state.sortDir,
+      nameWidth: this.state.nameWidth,
+      groupBy: this.state.groupBy,
+      showCriticalPath: this.state.showCriticalPath,
+      scrollDate: d
+        ? `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(
+            d.getDate()
+          ).padStart(2, "0")}`
+        : undefined,
+    };
+  }
+
+  /**
+   * Reports the view state to the host once the user stops adjusting it.
+   */
+  private scheduleViewStateSave() {
+    if (!this.props.onViewStateChange || this.pendingScrollDate) return;
+    if (this.viewStateTimer) window.clearTimeout(this.viewStateTimer);
+    this.viewStateTimer = window.setTimeout(() => {
+      const vs = this.getViewState();
+      const signature = JSON.stringify(vs);
+      if (signature === this.lastViewStateSignature) return;
+      this.lastViewStateSignature = signature;
+      this.props.onViewStateChange && this.props.onViewStateChange(vs);
+    }, 400);
+  }
+
+  private applyViewState(vs: GanttViewState) {
+    this.pendingScrollDate = this.parseScrollDate(vs);
+    // Applied settings are not echoed back as a change
+    this.lastViewStateSignature = JSON.stringify(vs);
+    // componentDidUpdate scrolls when the layout signature changed; otherwise do it here
+    this.setState(this.viewStateToState(vs) as IGanttViewState, () => {
+      if (this.pendingScrollDate) this.centerOnCurrentDate();
+    });
+  }
 
   private nameResizeInfo?: { startX: number; startWidth: number };
 
@@ -108,7 +531,7 @@ export class GanttViewControl extends React.Component<
     );
   };
 
-  private renderSortIcon(field: "name" | "startDate" | "endDate") {
+  private renderSortIcon(field: SortField) {
     const active = this.state.sortField === field;
     const dir = this.state.sortDir;
     const baseStyle: React.CSSProperties = {
@@ -148,15 +571,107 @@ export class GanttViewControl extends React.Component<
     );
   }
 
-  private formatDateDDMMYYYY(d: Date | null | undefined): string {
-    if (!d || isNaN(new Date(d).getTime())) return "Blank";
-    const day = String(d.getDate()).padStart(2, "0");
-    const mon = String(d.getMonth() + 1).padStart(2, "0");
-    const yr = d.getFullYear();
-    return `${day}/${mon}/${yr}`;
+  /**
+   * UI text for key in the user's language, with {0}, {1}... replaced by args.
+   */
+  private formatText(key: keyof GanttStrings, ...args: (string | number)[]): string {
+    const text = (this.props.strings && this.props.strings[key]) || DEFAULT_STRINGS[key];
+    return text.replace(/\{(\d+)\}/g, (match, i) =>
+      args[Number(i)] !== undefined ? String(args[Number(i)]) : match
+    );
+  }
+
+  private formatNumber(value: number): string {
+    return value.toLocaleString(this.props.locale, { maximumFractionDigits: 2 });
+  }
+
+  // Intl formatters are costly to create, so they are kept per locale
+  private formatterCache?: {
+    locale?: string;
+    date: Intl.DateTimeFormat;
+    longDate: Intl.DateTimeFormat;
+    dayMonth: Intl.DateTimeFormat; // "18 Mar" or "Mar 18"
+    shortMonth: Intl.DateTimeFormat;
+    longMonth: Intl.DateTimeFormat;
+    shortWeekday: Intl.DateTimeFormat;
+    longWeekday: Intl.DateTimeFormat;
+  };
+
+  private getFormatters() {
+    const locale = this.props.locale;
+    const cache = this.formatterCache;
+    if (cache && cache.locale === locale) return cache;
+    // An unsupported tag would throw; fall back to the browser's locale
+    const supported = locale && Intl.DateTimeFormat.supportedLocalesOf(locale).length ? locale : undefined;
+    this.formatterCache = {
+      locale,
+      date: new Intl.DateTimeFormat(supported, { day: "2-digit", month: "2-digit", year: "numeric" }),
+      longDate: new Intl.DateTimeFormat(supported, {
+        weekday: "short",
+        day: "numeric",
+        month: "short",
+        year: "numeric",
+      }),
+      dayMonth: new Intl.DateTimeFormat(supported, { day: "numeric", month: "short" }),
+      shortMonth: new Intl.DateTimeFormat(supported, { month: "short" }),
+      longMonth: new Intl.DateTimeFormat(supported, { month: "long" }),
+      shortWeekday: new Intl.DateTimeFormat(supported, { weekday: "short" }),
+      longWeekday: new Intl.DateTimeFormat(supported, { weekday: "long" }),
+    };
+    return this.formatterCache;
+  }
+
+  /**
+   * Dates in cells and tooltips: displayDateFormat when set, else the locale's numeric date.
+   */
+  private formatDate(d: Date | null | undefined): string {
+    if (!d || isNaN(new Date(d).getTime())) return this.formatText("blank");
+    if (this.props.displayDateFormat) {
+      // dayjs only knows English names, so month and day names are filled in as literals
+      const f = this.getFormatters();
+      const names: Record<string, Intl.DateTimeFormat> = {
+        MMMM: f.longMonth,
+        MMM: f.shortMonth,
+        dddd: f.longWeekday,
+        ddd: f.shortWeekday,
+        dd: f.shortWeekday,
+      };
+      const format = this.props.displayDateFormat.replace(
+        /\[[^\]]*\]|MMMM|MMM|dddd|ddd|dd/g,
+        (token) => (names[token] ? "[" + names[token].format(d) + "]" : token)
+      );
+      return dayjs(d).format(format);
+    }
+    return this.getFormatters().date.format(d);
   }
 
+
+  private readonly instanceId = ++instanceCount;
   private wrapperRef: React.RefObject<HTMLDivElement> = React.createRef();
+  private brushRef: React.RefObject<HTMLDivElement> = React.createRef();
+  private brushWindowRef: React.RefObject<HTMLDivElement> = React.createRef();
+  private boundsCache?: { key: string; data: GanttRow[]; value: TimelineBounds };
+  private segmentsCache?: { key: string; bounds: TimelineBounds; value: TimelineSegment[] };
+  private modelCache?: { inputs: any[]; model: GanttModel };
+  private liveRollupCache?: { model: GanttModel; edit: EditingBarState; value: LiveRollup };
+  private columnLayoutCache?: { key: string; segments: TimelineSegment[]; value: ColumnLayout };
+  private brushRangeCache?: {
+    bounds: TimelineBounds;
+    data: GanttRow[];
+    value: { start: Date; end: Date };
+  };
+  private overviewCache?: { inputs: any[]; value: React.ReactNode[] };
+  private panInfo?: { startX: number; scrollLeft: number; moved: boolean };
+  private suppressClick = false;
+  private brushDrag?: {
+    mode: "move" | "start" | "end" | "new";
+    originX: number;
+    origStart: number; // fractions of the brush range
+    origEnd: number;
+  };
+  private lastVisibleSignature?: string;
+  private visibleRangeTimer?: number;
+  private tableRef: React.RefObject<HTMLTableElement> = React.createRef();
   private lastCenterSignature?: string;
   private resizeObserver?: any;
   private measureTimers: number[] = [];
@@ -210,12 +725,18 @@ export class GanttViewControl extends React.Component<
 
     // Fallback: also listen to window resize
     window.addEventListener("resize", this.updateContainerWidth);
+    // Ctrl+wheel zoom must be able to cancel the browser zoom, so it cannot be passive
+    if (el) el.addEventListener("wheel", this.onWheelZoom, { passive: false });
 
     // Defer a couple extra measurements to catch late layout/font loads
     this.measureTimers.push(window.setTimeout(this.updateContainerWidth, 0));
     this.measureTimers.push(window.setTimeout(this.updateContainerWidth, 50));
     this.measureTimers.push(window.setTimeout(this.updateContainerWidth, 250));
 
+    this.measureRowLayout();
+    this.reportCriticalPath();
+    this.onTimelineScroll();
+
     // Center to current date shortly after mount (once sizes stabilize)
     this.measureTimers.push(
       window.setTimeout(() => this.centerOnCurrentDate(), 100)
@@ -224,6 +745,13 @@ export class GanttViewControl extends React.Component<
 
   componentWillUnmount(): void {
     window.removeEventListener("resize", this.updateContainerWidth);
+    this.wrapperRef.current?.removeEventListener("wheel", this.onWheelZoom);
+    window.removeEventListener("mousemove", this.onPanMove);
+    window.removeEventListener("mouseup", this.onPanEnd);
+    window.removeEventListener("mousemove", this.onBrushMove);
+    window.removeEventListener("mouseup", this.onBrushEnd);
+    if (this.visibleRangeTimer) window.clearTimeout(this.visibleRangeTimer);
+    if (this.viewStateTimer) window.clearTimeout(this.viewStateTimer);
     if (this.resizeObserver) {
       try {
         this.resizeObserver.disconnect();
@@ -245,14 +773,266 @@ export class GanttViewControl extends React.Component<
       this.centerOnCurrentDate();
       this.lastCenterSignature = signature;
     }
+    this.measureRowLayout();
+    this.reportCriticalPath();
+    this.onTimelineScroll();
+    if (prevProps.showCriticalPath !== this.props.showCriticalPath)
+      this.setState({ showCriticalPath: !!this.props.showCriticalPath });
+    if (prevProps.groupBy !== this.props.groupBy && this.props.groupBy)
+      this.setState({ groupBy: this.props.groupBy });
+    if (prevProps.fitToWindow !== this.props.fitToWindow)
+      this.setState({ timelineFit: this.props.fitToWindow ? "window" : "data" });
+    if (prevProps.viewState !== this.props.viewState && this.props.viewState)
+      this.applyViewState(this.props.viewState);
+    // Forget local date overrides once the refreshed data carries the edited value
+    if (prevProps.data !== this.props.data) {
+      const startDateOverrides = this.pruneOverrides(
+        this.state.startDateOverrides,
+        "startDate"
+      );
+      const endDateOverrides = this.pruneOverrides(
+        this.state.endDateOverrides,
+        "endDate"
+      );
+      if (
+        startDateOverrides !== this.state.startDateOverrides ||
+        endDateOverrides !== this.state.endDateOverrides
+      )
+        this.setState({ startDateOverrides, endDateOverrides });
+    }
+  }
+
+  /**
+   * Measures the rendered rows that take part in dependencies so connectors can be drawn.
+   * Only updates state when the layout actually changed, to avoid render loops.
+   */
+  private measureRowLayout() {
+    const table = this.tableRef.current;
+    const { dependencies, displayIndex } = this.getModel();
+    const needed: Record<string, boolean> = {};
+    dependencies.forEach((d) => {
+      needed[d.from.id] = true;
+      needed[d.to.id] = true;
+    });
+    if (!table || !Object.keys(needed).length) {
+      if (this.state.rowLayout) this.setState({ rowLayout: null });
+      return;
+    }
+    const rows: Record<string, { top: number; height: number }> = {};
+    let timelineLeft = 0;
+    let timelineWidth = 0;
+    const trs = table.querySelectorAll("tbody tr[data-row-id]");
+    for (let i = 0; i < trs.length; i++) {
+      const tr = trs[i] as HTMLElement;
+      const id = tr.getAttribute("data-row-id") || "";
+      if (!timelineWidth) {
+        const cell = tr.querySelector("td.timeline-cell") as HTMLElement | null;
+        if (cell) {
+          timelineLeft = cell.offsetLeft + table.clientLeft;
+          timelineWidth = cell.offsetWidth;
+        }
+      }
+      if (!needed[id]) continue;
+      rows[id] = {
+        top: tr.offsetTop + table.clientTop,
+        height: tr.offsetHeight,
+      };
+    }
+    // Rows outside the render window are placed from their display position
+    const anchor = trs[0] as HTMLElement | undefined;
+    const anchorIndex = anchor
+      ? displayIndex[anchor.getAttribute("data-row-id") || ""]
+      : undefined;
+    if (anchor && anchorIndex !== undefined) {
+      Object.keys(needed).forEach((id) => {
+        const index = displayIndex[id];
+        if (rows[id] || index === undefined) return;
+        rows[id] = {
+          top:
+            anchor.offsetTop +
+            table.clientTop +
+            (index - anchorIndex) * anchor.offsetHeight,
+          height: anchor.offsetHeight,
+        };
+      });
+    }
+    const signature = JSON.stringify([rows, timelineLeft, timelineWidth]);
+    if (!this.state.rowLayout || this.state.rowLayout.signature !== signature)
+      this.setState({ rowLayout: { rows, timelineLeft, timelineWidth, signature } });
+  }
+
+  /**
+   * Resolves each row's predecessors (by Items['id']) to rows in the dataset and
+   * checks the successor against the dependency type and lag.
+   */
+  private resolveDependencies(): ResolvedDependency[] {
+    const bySource: Record<string, GanttRow> = {};
+    this.props.data.forEach((r) => {
+      if (r.sourceId) bySource[String(r.sourceId)] = r;
+    });
+    const DAY = 86400000;
+    const result: ResolvedDependency[] = [];
+    this.props.data.forEach((to) => {
+      (to.predecessors || []).forEach((dep) => {
+        const from = bySource[dep.id];
+        if (!from || from === to) return;
+        const f = this.getCommittedDates(from);
+        const t = this.getCommittedDates(to);
+        const fromDate = dep.type === "SS" || dep.type === "SF" ? f.start : f.end;
+        const toDate = dep.type === "FF" || dep.type === "SF" ? t.end : t.start;
+        const violated =
+          !!fromDate &&
+          !!toDate &&
+          Number(toDate) < Number(fromDate) + dep.lag * DAY;
+        result.push({ from, to, type: dep.type, lag: dep.lag, violated });
+      });
+    });
+    return result;
+  }
+
+  /**
+   * Critical path over the leaf rows of the configured row types that are linked by at least
+   * one dependency to another such row. Parents, milestones, undated rows and unlinked rows are
+   * left out, so they never report slack. Collapsing does not change it; rows and links only
+   * show the highlight where they are displayed.
+   * Forward pass: a row starts no earlier than its own start date or what its predecessors allow.
+   * Backward pass: a row finishes no later than the project finish or what its successors allow.
+   * Rows caught in a dependency cycle are left out.
+   * @returns slack in days per row id; critical rows have no slack
+   */
+  private computeCriticalPath(
+    dependencies: ResolvedDependency[],
+    childrenMap: Record<string, GanttRow[]>
+  ): Record<string, CriticalPathItem> {
+    const DAY = 86400000;
+    const types = (this.props.rowTypes || []).map((t) => t.type);
+    const candidates: Record<string, GanttRow> = {};
+    this.props.data.forEach((r) => {
+      if (this.hasTaskChildren(childrenMap, r.id)) return;
+      const t = (r.rowType || "").toLowerCase();
+      if (t !== "milestone" && types.indexOf(t) >= 0) candidates[r.id] = r;
+    });
+    const linked: Record<string, boolean> = {};
+    dependencies.forEach((d) => {
+      if (!candidates[d.from.id] || !candidates[d.to.id]) return;
+      linked[d.from.id] = true;
+      linked[d.to.id] = true;
+    });
+    const nodes: Record<string, { es: number; dur: number; ef: number; lf: number }> = {};
+    const ids: string[] = [];
+    Object.keys(candidates).forEach((id) => {
+      if (!linked[id]) return;
+      const { start, end } = this.getCommittedDates(candidates[id]);
+      if (!start || !end) return;
+      const dur = Math.max(0, Number(end) - Number(start));
+      nodes[id] = { es: Number(start), dur, ef: Number(end), lf: 0 };
+      ids.push(id);
+    });
+    const preds: Record<string, ResolvedDependency[]> = {};
+    const succs: Record<string, ResolvedDependency[]> = {};
+    const indegree: Record<string, number> = {};
+    ids.forEach((id) => (indegree[id] = 0));
+    dependencies.forEach((d) => {
+      if (!nodes[d.from.id] || !nodes[d.to.id]) return;
+      (preds[d.to.id] = preds[d.to.id] || []).push(d);
+      (succs[d.from.id] = succs[d.from.id] || []).push(d);
+      indegree[d.to.id] += 1;
+    });
+    // Topological order (Kahn); rows left with incoming edges are in a cycle
+    const order: string[] = ids.filter((id) => indegree[id] === 0);
+    for (let i = 0; i < order.length; i++) {
+      (succs[order[i]] || []).forEach((d) => {
+        indegree[d.to.id] -= 1;
+        if (indegree[d.to.id] === 0) order.push(d.to.id);
+      });
+    }
+    const scheduled: Record<string, boolean> = {};
+    let finish = -Infinity;
+    order.forEach((id) => {
+      const n = nodes[id];
+      scheduled[id] = true;
+      (preds[id] || []).forEach((d) => {
+        const p = nodes[d.from.id];
+        const lag = d.lag * DAY;
+        let es = n.es;
+        if (d.type === "FS") es = p.ef + lag;
+        else if (d.type === "SS") es = p.es + lag;
+        else if (d.type === "FF") es = p.ef + lag - n.dur;
+        else es = p.es + lag - n.dur;
+        if (es > n.es) n.es = es;
+      });
+      n.ef = n.es + n.dur;
+      if (n.ef > finish) finish = n.ef;
+    });
+    const result: Record<string, CriticalPathItem> = {};
+    for (let i = order.length - 1; i >= 0; i--) {
+      const id = order[i];
+      const n = nodes[id];
+      n.lf = finish;
+      (succs[id] || []).forEach((d) => {
+        if (!scheduled[d.to.id]) return; // successor sits in a cycle
+        const sn = nodes[d.to.id];
+        const ls = sn.lf - sn.dur;
+        const lag = d.lag * DAY;
+        let lf = n.lf;
+        if (d.type === "FS") lf = ls - lag;
+        else if (d.type === "SS") lf = ls - lag + n.dur;
+        else if (d.type === "FF") lf = sn.lf - lag;
+        else lf = sn.lf - lag + n.dur;
+        if (lf < n.lf) n.lf = lf;
+      });
+      const slack = Math.round((n.lf - n.ef) / DAY);
+      result[id] = { rowId: id, slack, critical: slack <= 0 };
+    }
+    return result;
+  }
+
+  /**
+   * Notifies the host when the computed slack changes. Checked once per model, and not while
+   * a bar is dragged; the drop rebuilds the model and reports the result.
+   */
+  private reportCriticalPath() {
+    if (!this.props.onCriticalPathChange || this.state.editingBar) return;
+    const cp = this.getModel().criticalPath;
+    if (cp === this.lastCriticalPath) return;
+    this.lastCriticalPath = cp;
+    const items = Object.keys(cp).map((id) => cp[id]);
+    const signature = JSON.stringify(items);
+    if (signature === this.lastCriticalSignature) return;
+    this.lastCriticalSignature = signature;
+    this.props.onCriticalPathChange(items);
+  }
+
+  /**
+   * Removes overrides whose row now holds the same calendar day in the data.
+   * @returns the same map instance when nothing was removed
+   */
+  private pruneOverrides(
+    overrides: Record<string, Date>,
+    field: "startDate" | "endDate"
+  ): Record<string, Date> {
+    const ids = Object.keys(overrides);
+    if (!ids.length) return overrides;
+    const remaining: Record<string, Date> = {};
+    ids.forEach((id) => {
+      const row = this.props.data.find((r) => r.id === id);
+      const val = row ? row[field] : null;
+      if (!val || val.toDateString() !== overrides[id].toDateString())
+        remaining[id] = overrides[id];
+    });
+    return Object.keys(remaining).length !== ids.length ? remaining : overrides;
   }
 
   private buildCenterSignature() {
     const segLen = this.getSegments().length;
     return [
       this.state.zoomLevel,
+      this.state.timelineFit,
+      this.props.ganttStartDate ? this.props.ganttStartDate.toDateString() : "",
+      this.props.ganttEndDate ? this.props.ganttEndDate.toDateString() : "",
       this.state.containerWidth,
       this.props.expandDetails ? 1 : 0,
+      this.props.showAssigned ? 1 : 0,
       this.props.columnViewCount || 0,
       segLen,
       this.props.currentDate ? this.props.currentDate.toDateString() : "",
@@ -261,38 +1041,37 @@ export class GanttViewControl extends React.Component<
     ].join("|");
   }
 
+  /**
+   * Number of timeline columns that fit the viewport: month and quarter use columnViewCount,
+   * week doubles it, day shows columnViewCount weeks of days, and year shows all.
+   */
+  private getVisibleCount(segmentCount: number): number {
+    const z = this.state.zoomLevel;
+    if (z === "year") return Math.max(1, segmentCount);
+    const base =
+      this.props.columnViewCount && this.props.columnViewCount > 0
+        ? this.props.columnViewCount
+        : segmentCount;
+    const desired = z === "week" ? base * 2 : z === "day" ? base * 7 : base;
+    return Math.max(1, Math.min(segmentCount, desired));
+  }
+
   private centerOnCurrentDate() {
     const wrapper = this.wrapperRef.current;
     if (!wrapper) return;
-    const segments = this.getSegments();
-    if (!segments.length) return;
-    const { nameWidth, startWidth, endWidth } = this.state;
+    // A restored view returns to its saved position instead of today
+    const geo = this.getColumnLayout();
+    if (this.pendingScrollDate) {
+      const span = Number(geo.end) - Number(geo.start) || 1;
+      const frac = (Number(this.pendingScrollDate) - Number(geo.start)) / span;
+      this.pendingScrollDate = undefined;
+      this.scrollToFraction(Math.min(1, Math.max(0, frac)), geo.fixedWidth);
+      return;
+    }
+    if (!this.getSegments().length) return;
     // Detail columns are sticky; reserve their width so centering targets the timeline region only
-    const fixedWidth =
-      nameWidth + (this.props.expandDetails ? startWidth + endWidth : 0);
+    const { fixedWidth, timelineWidth, tableWidthPx } = geo;
     const containerPx = this.state.containerWidth || wrapper.clientWidth || 0;
-    const desiredVisible =
-      this.state.zoomLevel === "week" || this.state.zoomLevel === "month"
-        ? (() => {
-            const base =
-              this.props.columnViewCount && this.props.columnViewCount > 0
-                ? this.props.columnViewCount
-                : segments.length;
-            // Week view shows double the month count
-            return this.state.zoomLevel === "week" ? base * 2 : base;
-          })()
-        : segments.length; // year view shows all
-    const visibleCount = Math.max(1, Math.min(segments.length, desiredVisible));
-    const availablePx = Math.max(0, containerPx - fixedWidth);
-    let segWidthPx = Math.max(8, Math.floor(availablePx / visibleCount));
-    // For year view we distribute remainder pixels so total timeline width equals availablePx
-    let timelineWidth: number;
-    if (this.state.zoomLevel === "year") {
-      timelineWidth = availablePx; // we'll allocate across columns below for centering calc
-    } else {
-      timelineWidth = segWidthPx * segments.length;
-    }
-    const tableWidthPx = fixedWidth + timelineWidth;
     let pct = this.calculateStartX(this.props.currentDate);
     if (pct < 0) {
       const { start, end } = this.getTimelineBounds();
@@ -309,173 +1088,1128 @@ export class GanttViewControl extends React.Component<
     } catch {}
   }
 
-  private colorFor(rowType: string | null | undefined) {
-    const rt = (rowType || "").toLowerCase();
-    if (rt === "tender") return this.props.colors?.[1];
-    return this.props.colors?.[0];
+  /**
+   * Row dates after local edits, including the live preview of a drag in progress.
+   */
+  private getEffectiveDates(row: GanttRow): {
+    start: Date | null;
+    end: Date | null;
+  } {
+    const edit = this.state.editingBar;
+    if (edit && edit.rowId === row.id)
+      return { start: edit.liveStart, end: edit.liveEnd };
+    return this.getCommittedDates(row);
   }
 
-  // Column widths are static; no resize handlers
-
-  private startBarEndEdit(
-    e: React.MouseEvent,
-    rowId: string,
-    rowLeftPct: number,
-    rowWidthPct: number,
-    winStart: Date,
-    winEnd: Date
-  ) {
-    if (!this.props.adjustableEndDate) return; // editing disabled
-    e.preventDefault();
-    e.stopPropagation();
-    const cell =
-      (e.currentTarget.closest(".gantt-bar-container") as HTMLElement) ||
-      (e.currentTarget.parentElement as HTMLElement);
-    const containerPx = cell ? cell.clientWidth : 1;
-    this.setState({
-      editingEnd: {
-        rowId,
-        startX: e.clientX,
-        rowLeftPct,
-        startWidthPct: rowWidthPct,
-        liveWidthPct: rowWidthPct,
-        containerPx,
-        winStart,
-        winEnd,
-      },
-    });
-    window.addEventListener("mousemove", this.onBarDragMove as any);
-    window.addEventListener("mouseup", this.onGlobalMouseUp);
+  /**
+   * Row dates after saved local edits, without the drag preview. The model is built from these,
+   * so a drag step does not rebuild it.
+   */
+  private getCommittedDates(row: GanttRow): {
+    start: Date | null;
+    end: Date | null;
+  } {
+    return {
+      start: this.state.startDateOverrides[row.id] || row.startDate,
+      end: this.state.endDateOverrides[row.id] || row.endDate,
+    };
   }
-  private onBarDragMove = (e: MouseEvent) => {
-    const edit = this.state.editingEnd;
-    if (!edit) return;
-    const deltaPx = e.clientX - edit.startX;
-    const deltaPct = (deltaPx / edit.containerPx) * 100;
-    let liveWidthPct = edit.startWidthPct + deltaPct;
-    if (liveWidthPct < 1) liveWidthPct = 1;
-    if (liveWidthPct > 100 - edit.rowLeftPct)
-      liveWidthPct = 100 - edit.rowLeftPct;
-    if (liveWidthPct !== edit.liveWidthPct)
-      this.setState({ editingEnd: { ...edit, liveWidthPct } });
-  };
-  private onGlobalMouseUp = () => {
-    if (this.state.editingEnd) {
-      if (!this.props.adjustableEndDate) {
-        this.setState({ editingEnd: null });
-        window.removeEventListener("mousemove", this.onBarDragMove as any);
-        window.removeEventListener("mouseup", this.onGlobalMouseUp);
-        return;
-      }
-      const edit = this.state.editingEnd;
-      const start = edit.winStart;
-      const end = edit.winEnd;
-      const totalMs = Number(end) - Number(start);
-      const rightPct = edit.rowLeftPct + edit.liveWidthPct;
-      const newEnd = new Date(Number(start) + (rightPct / 100) * totalMs);
-      this.setState((prev) => ({
-        editingEnd: null,
-        endDateOverrides: { ...prev.endDateOverrides, [edit.rowId]: newEnd },
-      }));
-      window.removeEventListener("mousemove", this.onBarDragMove as any);
-      window.removeEventListener("mouseup", this.onGlobalMouseUp);
-      this.props.onEndDateChange &&
-        this.props.onEndDateChange(edit.rowId, newEnd);
-    }
-  };
 
   /**
-   * Takes the parameters and orders by parent child it and adds a level
-   * @returns an ordered list of gantt rows
+   * Derives parent spans from their descendants and milestones for rollupDates.
+   * A parent keeps its own date for an edge none of its descendants provide.
+   * @returns map of parent row id to rolled-up span; mismatch is set when the stored dates differ
    */
-  orderGanttRows = (): GanttRow[] => {
-    const { sortField, sortDir } = this.state;
-    const data = this.props.data.filter((r) => r.name !== "val");
-    // Index children
-    const childrenMap: Record<string, GanttRow[]> = {};
-    data.forEach((r) => {
-      const pid = r.parentId || "";
-      if (!childrenMap[pid]) childrenMap[pid] = [];
-      childrenMap[pid].push(r);
-    });
-    const compare = (a: GanttRow, b: GanttRow): number => {
-      const dir = sortDir === "asc" ? 1 : -1;
-      const valFor = (r: GanttRow): any => {
-        if (sortField === "name") return (r.name || "").toLowerCase();
-        if (sortField === "startDate")
-          return r.startDate ? r.startDate.getTime() : Number.MAX_SAFE_INTEGER;
-        if (sortField === "endDate")
-          return r.endDate ? r.endDate.getTime() : Number.MAX_SAFE_INTEGER;
-        return (r.name || "").toLowerCase();
-      };
-      const av = valFor(a);
-      const bv = valFor(b);
-      if (av < bv) return -1 * dir;
-      if (av > bv) return 1 * dir;
-      // tie-breaker stable by name then id
-      const an = (a.name || "").toLowerCase();
-      const bn = (b.name || "").toLowerCase();
-      if (an < bn) return -1;
-      if (an > bn) return 1;
-      return a.id.localeCompare(b.id);
-    };
-    const sortList = (list: GanttRow[]) => list.sort(compare);
-    const result: GanttRow[] = [];
-    const process = (row: GanttRow, level: number) => {
-      row.level = level;
-      row.milestones = [];
+  private getRolledDates(
+    childrenMap: Record<string, GanttRow[]>
+  ): Record<string, RolledSpan> {
+    const result: Record<string, RolledSpan> = {};
+    const spans: Record<string, { start: Date | null; end: Date | null }> = {};
+    const visiting: Record<string, boolean> = {};
+    const sameDay = (a: Date | null, b: Date | null) =>
+      (!a && !b) || (!!a && !!b && a.toDateString() === b.toDateString());
+    const span = (row: GanttRow): { start: Date | null; end: Date | null } => {
+      if (spans[row.id]) return spans[row.id];
+      const own = this.getCommittedDates(row);
       const kids = childrenMap[row.id] || [];
-      // separate milestones
-      const taskKids: GanttRow[] = [];
+      if (!kids.length || visiting[row.id]) return own;
+      visiting[row.id] = true;
+      let start: Date | null = null;
+      let end: Date | null = null;
       kids.forEach((k) => {
-        if ((k.rowType || "").toLowerCase() === "milestone")
-          row.milestones.push(k);
-        else taskKids.push(k);
+        const ks = span(k);
+        if (ks.start && (!start || ks.start < start)) start = ks.start;
+        if (ks.end && (!end || ks.end > end)) end = ks.end;
       });
-      sortList(taskKids);
-      result.push(row);
-      taskKids.forEach((child) => process(child, level + 1));
+      visiting[row.id] = false;
+      const rolled = { start: start || own.start, end: end || own.end };
+      result[row.id] = {
+        ...rolled,
+        mismatch: !sameDay(own.start, rolled.start) || !sameDay(own.end, rolled.end),
+      };
+      spans[row.id] = rolled;
+      return rolled;
     };
-    const roots = (childrenMap[""] || []).filter(
-      (r) => (r.rowType || "").toLowerCase() !== "milestone"
-    );
-    sortList(roots);
-    roots.forEach((r) => process(r, 0));
+    this.props.data.forEach((r) => span(r));
     return result;
-  };
+  }
 
-  private toggleSort = (field: "name" | "startDate" | "endDate") => {
-    this.setState((prev) => {
-      if (prev.sortField === field) {
-        // toggle direction
-        const newDir = prev.sortDir === "asc" ? "desc" : "asc";
-        return { ...prev, sortDir: newDir };
+  /**
+   * Total width of the sticky columns left of the timeline.
+   */
+  private getFixedWidth(): number {
+    const { nameWidth, startWidth, endWidth, assignedWidth } = this.state;
+    return (
+      nameWidth +
+      (this.props.expandDetails ? startWidth + endWidth : 0) +
+      (this.props.showAssigned ? assignedWidth : 0)
+    );
+  }
+
+  private colorFor(rowType: string | null | undefined) {
+    const rt = (rowType || "").toLowerCase();
+    const types = this.props.rowTypes || [];
+    const match = types.find((t) => t.type === rt);
+    return (match || types[0])?.color;
+  }
+
+  /**
+   * Row types shown in the totals footer, banner and group pills: the configured
+   * types, narrowed to totalsTypes when the app supplies them.
+   */
+  private getTotalTypes(): RowTypeStyle[] {
+    const types = this.props.rowTypes || [];
+    const wanted = this.props.totalsTypes || [];
+    return wanted.length ? types.filter((t) => wanted.indexOf(t.type) >= 0) : types;
+  }
+
+  /**
+   * Totals per row type. In "count" mode a row counts once, "duration" sums the days
+   * it covers and "sum" adds its totalsValue. With a range (end exclusive) only rows
+   * overlapping it contribute, and durations are clipped to it.
+   */
+  private computeTypeTotals(
+    rows: GanttRow[],
+    range?: { start: Date; end: Date }
+  ): Record<string, number> {
+    const DAY = 24 * 60 * 60 * 1000;
+    const mode = this.props.totalsMode || "count";
+    const totals: Record<string, number> = {};
+    this.getTotalTypes().forEach((t) => (totals[t.type] = 0));
+    rows.forEach((r) => {
+      const t = (r?.rowType || "").toLowerCase();
+      if (!(t in totals)) return;
+      const { start, end } = this.getCommittedDates(r);
+      let from = start ? start.getTime() : NaN;
+      // End dates are inclusive calendar days
+      let to = end ? end.getTime() + DAY : NaN;
+      if (range) {
+        if (isNaN(from) || isNaN(to)) return;
+        if (from >= range.end.getTime() || to <= range.start.getTime()) return;
+        from = Math.max(from, range.start.getTime());
+        to = Math.min(to, range.end.getTime());
+      }
+      if (mode === "duration") {
+        if (!isNaN(from) && !isNaN(to) && to > from)
+          totals[t] += Math.round((to - from) / DAY);
+      } else if (mode === "sum") {
+        totals[t] += r.totalsValue || 0;
+      } else {
+        totals[t] += 1;
       }
-      return { ...prev, sortField: field, sortDir: "asc" };
     });
-  };
+    return totals;
+  }
+
+  /**
+   * computeTypeTotals for every segment at once. boundaries holds each segment's start plus
+   * the end of the last one. A row adds to the segments it overlaps through difference
+   * arrays, so the cost does not grow with rows times segments.
+   */
+  private computeSegmentTotals(
+    rows: GanttRow[],
+    boundaries: number[]
+  ): Record<string, number>[] {
+    const DAY = 24 * 60 * 60 * 1000;
+    const mode = this.props.totalsMode || "count";
+    const count = boundaries.length - 1;
+    const types = this.getTotalTypes().map((t) => t.type);
+    // Per type: value added to each overlapped segment, clipped day counts at the edges,
+    // and (duration mode) how many rows cover a segment completely
+    const flat: Record<string, number[]> = {};
+    const edge: Record<string, number[]> = {};
+    const full: Record<string, number[]> = {};
+    types.forEach((t) => {
+      flat[t] = new Array(count + 1).fill(0);
+      edge[t] = new Array(count).fill(0);
+      full[t] = new Array(count + 1).fill(0);
+    });
+    // First boundary index greater than ms
+    const after = (ms: number) => {
+      let lo = 0;
+      let hi = boundaries.length;
+      while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (boundaries[mid] > ms) hi = mid;
+        else lo = mid + 1;
+      }
+      return lo;
+    };
+    const days = (from: number, to: number) => Math.round((to - from) / DAY);
+    rows.forEach((r) => {
+      const t = (r?.rowType || "").toLowerCase();
+      if (types.indexOf(t) < 0) return;
+      const { start, end } = this.getCommittedDates(r);
+      if (!start || !end) return;
+      const from = start.getTime();
+      // End dates are inclusive calendar days
+      const to = end.getTime() + DAY;
+      // Overlapped segments a..b
+      const a = Math.max(0, after(from) - 1);
+      const b = Math.min(count, after(to - 1)) - 1;
+      if (count <= 0 || a > b || from >= boundaries[count] || to <= boundaries[0]) return;
+      if (mode === "duration") {
+        if (a === b) {
+          edge[t][a] += days(Math.max(from, boundaries[a]), Math.min(to, boundaries[a + 1]));
+          return;
+        }
+        edge[t][a] += days(Math.max(from, boundaries[a]), boundaries[a + 1]);
+        edge[t][b] += days(boundaries[b], Math.min(to, boundaries[b + 1]));
+        full[t][a + 1] += 1;
+        full[t][b] -= 1;
+        return;
+      }
+      const value = mode === "sum" ? r.totalsValue || 0 : 1;
+      flat[t][a] += value;
+      flat[t][b + 1] -= value;
+    });
+    const running: Record<string, { flat: number; full: number }> = {};
+    types.forEach((t) => (running[t] = { flat: 0, full: 0 }));
+    const result: Record<string, number>[] = [];
+    for (let i = 0; i < count; i++) {
+      const totals: Record<string, number> = {};
+      types.forEach((t) => {
+        running[t].flat += flat[t][i];
+        running[t].full += full[t][i];
+        totals[t] =
+          running[t].flat +
+          edge[t][i] +
+          running[t].full * days(boundaries[i], boundaries[i + 1]);
+      });
+      result.push(totals);
+    }
+    return result;
+  }
+
+  private describeDateErrors(row: GanttRow): string {
+    const errors = row.dateErrors || {};
+    return [
+      errors.startDate !== undefined ? this.formatText("startDateInvalid", errors.startDate) : "",
+      errors.endDate !== undefined ? this.formatText("endDateInvalid", errors.endDate) : "",
+    ]
+      .filter(Boolean)
+      .join("\n");
+  }
+
+  private formatTotal(value: number): string {
+    if (this.props.totalsMode === "duration")
+      return this.formatText("durationDays", this.formatNumber(value));
+    return this.formatNumber(value);
+  }
+
+  /**
+   * Short pill labels: the initial, or the first letters until types no longer collide.
+   */
+  private getTypeAbbreviations(): Record<string, string> {
+    const types = this.getTotalTypes();
+    const result: Record<string, string> = {};
+    types.forEach((t) => {
+      let len = 1;
+      while (
+        len < t.label.length &&
+        types.some(
+          (o) =>
+            o !== t &&
+            o.label.slice(0, len).toUpperCase() ===
+              t.label.slice(0, len).toUpperCase()
+        )
+      )
+        len++;
+      result[t.type] = t.label.slice(0, len).toUpperCase();
+    });
+    return result;
+  }
+
+  private describeTotals(totals: Record<string, number>, sep = " "): string {
+    return this.getTotalTypes()
+      .map((t) => `${t.label}: ${this.formatTotal(totals[t.type] || 0)}`)
+      .join(sep);
+  }
+
+  private renderTypeSpark(totals: Record<string, number>) {
+    const types = this.getTotalTypes();
+    const total = types.reduce((sum, t) => sum + Math.max(0, totals[t.type] || 0), 0);
+    return (
+      <div className="tot-spark" aria-label={this.describeTotals(totals, ", ")}>
+        {types.map((t) => (
+          <div
+            key={t.type}
+            className="tot-spark-part"
+            style={{
+              width: total
+                ? (Math.max(0, totals[t.type] || 0) / total) * 100 + "%"
+                : 0,
+              background: t.color,
+            }}
+          />
+        ))}
+      </div>
+    );
+  }
+
+  private renderTypePill(totals: Record<string, number>, className: string) {
+    const abbr = this.getTypeAbbreviations();
+    return (
+      <span className={className} aria-label={this.describeTotals(totals)}>
+        {this.getTotalTypes().map((t, i) => (
+          <React.Fragment key={t.type}>
+            {i > 0 && <span className="pill-sep" />}
+            <span className="pill-label">{abbr[t.type]}:</span>
+            <span className="pill-val">{this.formatTotal(totals[t.type] || 0)}</span>
+          </React.Fragment>
+        ))}
+      </span>
+    );
+  }
+
+  /**
+   * Load per assigned person within a range (end exclusive), highest first. In "items"
+   * mode the load is the peak number of the person's items running on the same day;
+   * in "days" mode it is the days of work they cover inside the range.
+   */
+  private computeResourceLoad(
+    rows: GanttRow[],
+    range: { start: Date; end: Date }
+  ): ResourceLoad[] {
+    const DAY = 24 * 60 * 60 * 1000;
+    const byPerson: Record<string, { rows: GanttRow[]; spans: [number, number][] }> = {};
+    rows.forEach((r) => {
+      const { start, end } = this.getCommittedDates(r);
+      if (!start || !end || !r.assigned) return;
+      // End dates are inclusive calendar days
+      const from = Math.max(start.getTime(), range.start.getTime());
+      const to = Math.min(end.getTime() + DAY, range.end.getTime());
+      if (to <= from) return;
+      const p = byPerson[r.assigned] || (byPerson[r.assigned] = { rows: [], spans: [] });
+      p.rows.push(r);
+      p.spans.push([from, to]);
+    });
+    return Object.keys(byPerson)
+      .map((person) => {
+        const { rows: personRows, spans } = byPerson[person];
+        let load = 0;
+        if (this.props.resourceLoadMode === "days") {
+          load = spans.reduce((sum, [from, to]) => sum + Math.round((to - from) / DAY), 0);
+        } else {
+          // Sweep start/end events; ends sort before starts at the same instant
+          const events: [number, number][] = [];
+          spans.forEach(([from, to]) => events.push([from, 1], [to, -1]));
+          events.sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+          let running = 0;
+          events.forEach(([, delta]) => {
+            running += delta;
+            load = Math.max(load, running);
+          });
+        }
+        return { person, load, rows: personRows };
+      })
+      .sort((a, b) => b.load - a.load || a.person.localeCompare(b.person));
+  }
+
+  private formatLoad(load: number): string {
+    if (this.props.resourceLoadMode === "days")
+      return this.formatText("durationDays", this.formatNumber(load));
+    return this.formatText(load === 1 ? "loadItem" : "loadItems", this.formatNumber(load));
+  }
+
+  /**
+   * Computes the progress shown on each bar, clamped to 0-100.
+   * With rollupProgress, rows that have task children show the duration-weighted
+   * progress of those children (recursively) instead of their own value.
+   * @returns map of row id to percent complete (rows without progress are omitted)
+   */
+  private getProgressMap(): Record<string, number> {
+    const clamp = (v: number) => Math.max(0, Math.min(100, v));
+    const result: Record<string, number> = {};
+    const childrenMap: Record<string, GanttRow[]> = {};
+    this.props.data.forEach((r) => {
+      if (r.progress !== null && !isNaN(r.progress))
+        result[r.id] = clamp(r.progress);
+      if ((r.rowType || "").toLowerCase() === "milestone") return;
+      const pid = r.parentId || "";
+      if (!childrenMap[pid]) childrenMap[pid] = [];
+      childrenMap[pid].push(r);
+    });
+    if (!this.props.rollupProgress) return result;
+    const DAY = 86400000;
+    // "visiting" guards against parentId cycles, "done" avoids re-rolling shared subtrees
+    const visiting: Record<string, boolean> = {};
+    const done: Record<string, boolean> = {};
+    const rollup = (row: GanttRow): number | undefined => {
+      const kids = childrenMap[row.id] || [];
+      if (!kids.length || visiting[row.id] || done[row.id]) return result[row.id];
+      visiting[row.id] = true;
+      let weighted = 0;
+      let totalWeight = 0;
+      kids.forEach((k) => {
+        const { start: s, end: e } = this.getCommittedDates(k);
+        // Undated children count as a single day so they still contribute
+        const weight = s && e ? Math.max(DAY, Number(e) - Number(s)) : DAY;
+        weighted += (rollup(k) || 0) * weight;
+        totalWeight += weight;
+      });
+      visiting[row.id] = false;
+      done[row.id] = true;
+      result[row.id] = clamp(totalWeight ? weighted / totalWeight : 0);
+      return result[row.id];
+    };
+    this.props.data.forEach((r) => rollup(r));
+    return result;
+  }
+
+  private buildBarTitle(
+    row: GanttRow,
+    start: Date | null,
+    end: Date | null,
+    progress: number | undefined,
+    stored?: { start: Date | null; end: Date | null },
+    violations?: ResolvedDependency[],
+    cp?: CriticalPathItem,
+    rules?: FormatRule[]
+  ): string {
+    const lines = [
+      row.name,
+      `${this.formatDate(start)} - ${this.formatDate(end)}`,
+    ];
+    if (stored)
+      lines.push(
+        this.formatText("storedRange", this.formatDate(stored.start), this.formatDate(stored.end))
+      );
+    if (row.assigned) lines.push(this.formatText("assignedTo", row.assigned));
+    if (progress !== undefined)
+      lines.push(this.formatText("progressPercent", this.formatNumber(Math.round(progress))));
+    if (cp)
+      lines.push(
+        this.formatText(Math.abs(cp.slack) === 1 ? "slackDay" : "slackDays", this.formatNumber(cp.slack)) +
+          (cp.critical ? " " + this.formatText("critical") : "")
+      );
+    (violations || []).forEach((d) =>
+      lines.push(
+        this.formatText(
+          "violates",
+          `${d.type}${d.lag ? (d.lag > 0 ? "+" : "") + d.lag + "d" : ""}`,
+          d.from.name
+        )
+      )
+    );
+    (rules || []).forEach((r) => lines.push(`${r.icon ? r.icon + " " : ""}${r.name}`));
+    return lines.join("\n");
+  }
+
+  /**
+   * Returns the formatRules matching a row, in rule order.
+   */
+  private matchFormatRules(
+    row: GanttRow,
+    start: Date | null,
+    end: Date | null,
+    progress: number | undefined
+  ): FormatRule[] {
+    const rules = this.props.formatRules || [];
+    if (!rules.length) return rules;
+    const today = new Date(this.props.currentDate || new Date());
+    today.setHours(0, 0, 0, 0);
+    return rules.filter((rule) => {
+      switch (rule.when) {
+        case "overdue":
+          return !!end && end < today && (progress === undefined || progress < 100);
+        case "startsWithin": {
+          if (!start) return false;
+          const limit = new Date(today);
+          limit.setDate(limit.getDate() + (rule.days || 0));
+          return start >= today && start <= limit;
+        }
+        case "missingStart":
+          return !start;
+        case "missingEnd":
+          return !end;
+        case "field": {
+          const val = ((row.fields || {})[rule.column || ""] || "").toLowerCase();
+          if (rule.equals !== undefined) return val === rule.equals.toLowerCase();
+          if (rule.contains !== undefined)
+            return val.indexOf(rule.contains.toLowerCase()) >= 0;
+          return !!val;
+        }
+        default:
+          return false;
+      }
+    });
+  }
+
+  /**
+   * Merges matching rules into bar styles: the first rule setting each style wins.
+   */
+  private resolveRuleStyle(rules: FormatRule[]) {
+    const pick = (key: "color" | "border") =>
+      rules.map((r) => r[key]).find((v) => !!v);
+    return {
+      color: pick("color"),
+      border: pick("border"),
+      icons: rules.map((r) => r.icon).filter((v): v is string => !!v),
+    };
+  }
+
+  // Column widths are static; no resize handlers
+
+  private canEditBar(mode: BarEditMode) {
+    return mode === "end"
+      ? !!this.props.adjustableEndDate
+      : !!this.props.adjustableStartDate;
+  }
+
+  private startBarEdit(
+    e: React.MouseEvent,
+    mode: BarEditMode,
+    row: GanttRow,
+    rowLeftPct: number,
+    rowWidthPct: number,
+    winStart: Date,
+    winEnd: Date
+  ) {
+    if (!this.canEditBar(mode)) return; // editing disabled
+    const origStart = this.state.startDateOverrides[row.id] || row.startDate;
+    const origEnd = this.state.endDateOverrides[row.id] || row.endDate;
+    if (!origStart || !origEnd) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const cell =
+      (e.currentTarget.closest(".gantt-bar-container") as HTMLElement) ||
+      (e.currentTarget.parentElement as HTMLElement);
+    const containerPx = cell ? cell.clientWidth : 1;
+    this.setState({
+      editingBar: {
+        rowId: row.id,
+        mode,
+        startX: e.clientX,
+        rowLeftPct,
+        startWidthPct: rowWidthPct,
+        liveLeftPct: rowLeftPct,
+        liveWidthPct: rowWidthPct,
+        liveStart: origStart,
+        liveEnd: origEnd,
+        containerPx,
+        winStart,
+        winEnd,
+        origStart,
+        origEnd,
+      },
+    });
+    window.addEventListener("mousemove", this.onBarDragMove as any);
+    window.addEventListener("mouseup", this.onGlobalMouseUp);
+  }
+  private onBarDragMove = (e: MouseEvent) => {
+    const edit = this.state.editingBar;
+    if (!edit) return;
+    const deltaPx = e.clientX - edit.startX;
+    const deltaPct = (deltaPx / edit.containerPx) * 100;
+    const totalMs = Number(edit.winEnd) - Number(edit.winStart) || 1;
+    const toMs = (pct: number) => (pct / 100) * totalMs;
+    const toPct = (ms: number) => (ms / totalMs) * 100;
+    // Holding Alt turns off grid snapping; dates still land on whole days
+    const unit = e.altKey ? "day" : this.getSnapUnit();
+    const oneDayAfter = (d: Date) =>
+      new Date(d.getFullYear(), d.getMonth(), d.getDate() + 1);
+    const oneDayBefore = (d: Date) =>
+      new Date(d.getFullYear(), d.getMonth(), d.getDate() - 1);
+    let liveStart = edit.origStart;
+    let liveEnd = edit.origEnd;
+    let liveLeftPct = edit.rowLeftPct;
+    let liveWidthPct = edit.startWidthPct;
+    if (edit.mode === "end") {
+      let rightPct = edit.rowLeftPct + edit.startWidthPct + deltaPct;
+      rightPct = Math.min(100, Math.max(edit.rowLeftPct + 1, rightPct));
+      liveEnd = this.snapDate(
+        new Date(Number(edit.winStart) + toMs(rightPct)),
+        unit
+      );
+      if (liveEnd <= edit.origStart) liveEnd = oneDayAfter(edit.origStart);
+      liveWidthPct = Math.max(
+        1,
+        toPct(Number(liveEnd) - Number(edit.winStart)) - edit.rowLeftPct
+      );
+    } else if (edit.mode === "start") {
+      // Shift by the dragged distance so bars clipped at the window edge keep their true start
+      const rightPct = edit.rowLeftPct + edit.startWidthPct;
+      liveStart = this.snapDate(
+        new Date(Number(edit.origStart) + toMs(deltaPct)),
+        unit
+      );
+      if (liveStart >= edit.origEnd) liveStart = oneDayBefore(edit.origEnd);
+      liveLeftPct = toPct(Number(liveStart) - Number(edit.winStart));
+      liveLeftPct = Math.min(rightPct - 1, Math.max(0, liveLeftPct));
+      liveWidthPct = rightPct - liveLeftPct;
+    } else {
+      liveStart = this.snapDate(
+        new Date(Number(edit.origStart) + toMs(deltaPct)),
+        unit
+      );
+      const shiftMs = Number(liveStart) - Number(edit.origStart);
+      liveEnd = this.snapDate(new Date(Number(edit.origEnd) + shiftMs), "day");
+      liveLeftPct = edit.rowLeftPct + toPct(shiftMs);
+      liveLeftPct = Math.min(100 - edit.startWidthPct, Math.max(0, liveLeftPct));
+    }
+    if (
+      Number(liveStart) !== Number(edit.liveStart) ||
+      Number(liveEnd) !== Number(edit.liveEnd)
+    )
+      this.setState({
+        editingBar: { ...edit, liveStart, liveEnd, liveLeftPct, liveWidthPct },
+      });
+  };
+  private onGlobalMouseUp = () => {
+    const edit = this.state.editingBar;
+    if (!edit) return;
+    window.removeEventListener("mousemove", this.onBarDragMove as any);
+    window.removeEventListener("mouseup", this.onGlobalMouseUp);
+    const change: BarDateChange = {};
+    if (Number(edit.liveStart) !== Number(edit.origStart))
+      change.startDate = edit.liveStart;
+    if (Number(edit.liveEnd) !== Number(edit.origEnd))
+      change.endDate = edit.liveEnd;
+    if (!this.canEditBar(edit.mode) || (!change.startDate && !change.endDate)) {
+      this.setState({ editingBar: null });
+      return;
+    }
+    this.setState((prev) => ({
+      editingBar: null,
+      startDateOverrides: change.startDate
+        ? { ...prev.startDateOverrides, [edit.rowId]: change.startDate }
+        : prev.startDateOverrides,
+      endDateOverrides: change.endDate
+        ? { ...prev.endDateOverrides, [edit.rowId]: change.endDate }
+        : prev.endDateOverrides,
+    }));
+    this.props.onDatesChange && this.props.onDatesChange(edit.rowId, change);
+  };
+
+  /**
+   * Resolves the unit bar edits snap to; "auto" follows the active zoom level.
+   */
+  private getSnapUnit(): "day" | "week" | "month" {
+    const unit = this.props.snapUnit;
+    if (unit && unit !== "auto") return unit;
+    if (this.state.zoomLevel === "year" || this.state.zoomLevel === "quarter")
+      return "month";
+    if (this.state.zoomLevel === "month") return "week";
+    return "day";
+  }
+
+  /**
+   * Rounds a date to the nearest day, week (weekStart) or month boundary at local midnight,
+   * so edited values match the DateOnly inputs.
+   */
+  private snapDate(d: Date, unit: "day" | "week" | "month"): Date {
+    const day = new Date(d.getFullYear(), d.getMonth(), d.getDate());
+    if (d.getHours() >= 12) day.setDate(day.getDate() + 1);
+    if (unit === "week") {
+      const sinceWeekStart = (day.getDay() - this.getWeekStart() + 7) % 7;
+      day.setDate(day.getDate() - sinceWeekStart + (sinceWeekStart >= 4 ? 7 : 0));
+    } else if (unit === "month") {
+      const first = new Date(day.getFullYear(), day.getMonth(), 1);
+      const next = new Date(day.getFullYear(), day.getMonth() + 1, 1);
+      return Number(day) - Number(first) < Number(next) - Number(day)
+        ? first
+        : next;
+    }
+    return day;
+  }
+
+  /**
+   * Takes the parameters and orders by parent child it and adds a level
+   * @returns an ordered list of gantt rows with their indent level
+   */
+  orderGanttRows = (
+    childrenMap: Record<string, GanttRow[]>
+  ): { row: GanttRow; level: number }[] => {
+    const { sortField, sortDir } = this.state;
+    const compare = (a: GanttRow, b: GanttRow): number => {
+      const dir = sortDir === "asc" ? 1 : -1;
+      const valFor = (r: GanttRow): any => {
+        if (sortField === "name") return (r.name || "").toLowerCase();
+        if (sortField === "startDate")
+          return r.startDate ? r.startDate.getTime() : Number.MAX_SAFE_INTEGER;
+        if (sortField === "endDate")
+          return r.endDate ? r.endDate.getTime() : Number.MAX_SAFE_INTEGER;
+        if (sortField === "assigned")
+          // unassigned rows sort last
+          return r.assigned ? r.assigned.toLowerCase() : "\uffff";
+        return (r.name || "").toLowerCase();
+      };
+      const av = valFor(a);
+      const bv = valFor(b);
+      if (av < bv) return -1 * dir;
+      if (av > bv) return 1 * dir;
+      // tie-breaker stable by name then id
+      const an = (a.name || "").toLowerCase();
+      const bn = (b.name || "").toLowerCase();
+      if (an < bn) return -1;
+      if (an > bn) return 1;
+      return a.id.localeCompare(b.id);
+    };
+    const sortList = (list: GanttRow[]) => list.sort(compare);
+    const result: { row: GanttRow; level: number }[] = [];
+    const process = (row: GanttRow, level: number) => {
+      // Milestones are drawn on their parent's row rather than listed
+      const taskKids = (childrenMap[row.id] || []).filter(
+        (k) => (k.rowType || "").toLowerCase() !== "milestone"
+      );
+      sortList(taskKids);
+      result.push({ row, level });
+      // Descendants of collapsed rows are not listed
+      if (this.state.collapsedRows[row.id]) return;
+      taskKids.forEach((child) => process(child, level + 1));
+    };
+    const roots = (childrenMap[""] || []).filter(
+      (r) => (r.rowType || "").toLowerCase() !== "milestone"
+    );
+    sortList(roots);
+    roots.forEach((r) => process(r, 0));
+    return result;
+  };
+
+  /**
+   * Indexes rows (including milestones) by parentId; root rows are under "".
+   */
+  private buildChildrenMap(): Record<string, GanttRow[]> {
+    const childrenMap: Record<string, GanttRow[]> = {};
+    this.props.data
+      .filter((r) => r.name !== "val")
+      .forEach((r) => {
+        const pid = r.parentId || "";
+        if (!childrenMap[pid]) childrenMap[pid] = [];
+        childrenMap[pid].push(r);
+      });
+    return childrenMap;
+  }
+
+  private hasTaskChildren(
+    childrenMap: Record<string, GanttRow[]>,
+    id: string
+  ): boolean {
+    return (childrenMap[id] || []).some(
+      (k) => (k.rowType || "").toLowerCase() !== "milestone"
+    );
+  }
+
+  /**
+   * Date span of a row together with all its descendants and milestones.
+   */
+  private getSubtreeRange(
+    childrenMap: Record<string, GanttRow[]>,
+    id: string
+  ): { start: Date | null; end: Date | null } {
+    let start: Date | null = null;
+    let end: Date | null = null;
+    const seen: Record<string, boolean> = {};
+    const { byId } = this.getModel();
+    const visit = (rid: string) => {
+      if (seen[rid]) return;
+      seen[rid] = true;
+      const row = byId[rid];
+      if (row) {
+        const { start: s, end: e } = this.getCommittedDates(row);
+        if (s && (!start || s < start)) start = s;
+        if (e && (!end || e > end)) end = e;
+      }
+      (childrenMap[rid] || []).forEach((k) => visit(k.id));
+    };
+    visit(id);
+    return { start, end };
+  }
+
+  private toggleRow = (id: string, expand?: boolean) => {
+    this.setState((prev) => {
+      const collapse = expand === undefined ? !prev.collapsedRows[id] : !expand;
+      if (!!prev.collapsedRows[id] === collapse) return null;
+      const collapsedRows = { ...prev.collapsedRows };
+      if (collapse) collapsedRows[id] = true;
+      else delete collapsedRows[id];
+      return { collapsedRows };
+    });
+  };
+
+  private expandAll = () => {
+    this.setState({ collapsedRows: {}, collapsedGroups: {} });
+  };
+
+  private collapseAll = () => {
+    const { childrenMap, displayRows } = this.getModel();
+    const collapsedRows: Record<string, boolean> = {};
+    this.props.data.forEach((r) => {
+      if (this.hasTaskChildren(childrenMap, r.id)) collapsedRows[r.id] = true;
+    });
+    const collapsedGroups: Record<string, boolean> = {};
+    displayRows.forEach((item) => {
+      if (item.kind === "group")
+        collapsedGroups[this.state.groupBy + ":" + item.group.key] = true;
+    });
+    this.setState({ collapsedRows, collapsedGroups });
+  };
+
+  /**
+   * Splits the ordered rows into swimlanes for the active group-by mode.
+   * Hierarchy is kept inside a group; a row whose parent sits in another group starts at level 0.
+   * @returns groups sorted by label, with the "no value" group last
+   */
+  private buildGroups(rows: GanttRow[]): GanttGroup[] {
+    const mode = this.state.groupBy;
+    const keyFor = (r: GanttRow): [string, string] => {
+      if (mode === "assigned") {
+        const a = (r.assigned || "").trim();
+        return a ? [a.toLowerCase(), a] : ["", this.formatText("unassigned")];
+      }
+      if (mode === "rowType") {
+        const t = (r.rowType || "").toLowerCase();
+        const configured = (this.props.rowTypes || []).find((c) => c.type === t);
+        return t && t !== "unknown"
+          ? [t, configured ? configured.label : t.charAt(0).toUpperCase() + t.slice(1)]
+          : ["", this.formatText("unknownType")];
+      }
+      const s = this.getCommittedDates(r).start;
+      return s ? [String(s.getFullYear()), String(s.getFullYear())] : ["", this.formatText("noStartDate")];
+    };
+    const byKey: Record<string, GanttGroup> = {};
+    const order: GanttGroup[] = [];
+    rows.forEach((r) => {
+      const [key, label] = keyFor(r);
+      let g = byKey[key];
+      if (!g) {
+        g = { key, label, rows: [], start: null, end: null, totals: {} };
+        byKey[key] = g;
+        order.push(g);
+      }
+      g.rows.push(r);
+      const { start: s, end: e } = this.getCommittedDates(r);
+      if (s && (!g.start || s < g.start)) g.start = s;
+      if (e && (!g.end || e > g.end)) g.end = e;
+    });
+    order.forEach((g) => (g.totals = this.computeTypeTotals(g.rows)));
+    return order.sort((a, b) => {
+      if (!a.key) return 1;
+      if (!b.key) return -1;
+      return a.label.localeCompare(b.label, this.props.locale, { numeric: true });
+    });
+  }
+
+  /**
+   * Builds the body rows, inserting group headers and skipping collapsed groups.
+   */
+  private buildDisplayRows(childrenMap: Record<string, GanttRow[]>): DisplayRow[] {
+    const ordered = this.orderGanttRows(childrenMap);
+    const hasChildren = (row: GanttRow) =>
+      this.hasTaskChildren(childrenMap, row.id);
+    if (this.state.groupBy === "none") {
+      return ordered.map(({ row, level }) => ({
+        kind: "row",
+        row,
+        level,
+        hasChildren: hasChildren(row),
+      }));
+    }
+    const result: DisplayRow[] = [];
+    this.buildGroups(ordered.map((o) => o.row)).forEach((group) => {
+      result.push({ kind: "group", group });
+      if (this.state.collapsedGroups[this.state.groupBy + ":" + group.key])
+        return;
+      const inGroup: Record<string, number> = {};
+      group.rows.forEach((row) => {
+        const parentLevel = inGroup[row.parentId];
+        const level = parentLevel !== undefined ? parentLevel + 1 : 0;
+        inGroup[row.id] = level;
+        result.push({ kind: "row", row, level, hasChildren: hasChildren(row) });
+      });
+    });
+    return result;
+  }
+
+  /**
+   * The current GanttModel, rebuilt only when one of its inputs changed identity.
+   */
+  private getModel(): GanttModel {
+    const segments = this.getSegments();
+    const inputs = [
+      this.props.data,
+      this.props.rowTypes,
+      this.props.totalsTypes,
+      this.props.totalsMode,
+      this.props.rollupProgress,
+      this.props.rollupDates,
+      this.props.strings,
+      this.props.locale,
+      this.state.sortField,
+      this.state.sortDir,
+      this.state.groupBy,
+      this.state.collapsedRows,
+      this.state.collapsedGroups,
+      this.state.startDateOverrides,
+      this.state.endDateOverrides,
+      this.props.resourceLoadMode,
+      segments,
+    ];
+    const cache = this.modelCache;
+    if (cache && cache.inputs.every((v, i) => v === inputs[i])) return cache.model;
+    const model = this.buildModel(segments);
+    this.modelCache = { inputs, model };
+    return model;
+  }
+
+  private buildModel(segments: TimelineSegment[]): GanttModel {
+    const byId: Record<string, GanttRow> = {};
+    this.props.data.forEach((r) => (byId[r.id] = r));
+    const childrenMap = this.buildChildrenMap();
+    const milestones: Record<string, GanttRow[]> = {};
+    Object.keys(childrenMap).forEach((pid) => {
+      const list = childrenMap[pid].filter(
+        (k) => (k.rowType || "").toLowerCase() === "milestone"
+      );
+      if (pid && list.length) milestones[pid] = list;
+    });
+    // The last segment runs through the end of the timeline's last day
+    const { end } = this.getTimelineBounds();
+    const boundaries = segments.map((s) => s.start.getTime());
+    boundaries.push(new Date(end.getFullYear(), end.getMonth(), end.getDate() + 1).getTime());
+    const displayRows = this.buildDisplayRows(childrenMap);
+    const displayIndex: Record<string, number> = {};
+    displayRows.forEach((item, i) => {
+      if (item.kind === "row") displayIndex[item.row.id] = i;
+    });
+    const dependencies = this.resolveDependencies();
+    const violations: Record<string, ResolvedDependency[]> = {};
+    dependencies.forEach((d) => {
+      if (!d.violated) return;
+      if (!violations[d.to.id]) violations[d.to.id] = [];
+      violations[d.to.id].push(d);
+    });
+    return {
+      byId,
+      childrenMap,
+      milestones,
+      displayRows,
+      progress: this.getProgressMap(),
+      rolledDates: this.props.rollupDates ? this.getRolledDates(childrenMap) : {},
+      // Milestones are not configured types, so they never count
+      totals: this.computeTypeTotals(this.props.data),
+      segmentTotals: this.computeSegmentTotals(this.props.data, boundaries),
+      displayIndex,
+      dependencies,
+      violations,
+      criticalPath: this.computeCriticalPath(dependencies, childrenMap),
+      // Leaf task rows only, so parents do not double count
+      loadRows: this.props.data.filter(
+        (r) =>
+          (r.rowType || "").toLowerCase() !== "milestone" &&
+          !this.hasTaskChildren(childrenMap, r.id)
+      ),
+      resourceLoads: {},
+    };
+  }
+
+  /**
+   * Roll-ups that depend on the bar being dragged, redone from its live dates on top of the
+   * cached model: the rolled spans and progress of its ancestors and the span of its swimlane.
+   * Everything else keeps the model's values until the drop rebuilds it.
+   * @returns null when no bar is being dragged
+   */
+  private getLiveRollup(model: GanttModel): LiveRollup | null {
+    const edit = this.state.editingBar;
+    if (!edit) return null;
+    const cache = this.liveRollupCache;
+    if (cache && cache.model === model && cache.edit === edit) return cache.value;
+    const DAY = 86400000;
+    const value: LiveRollup = { rolledDates: {}, progress: {}, groupSpans: {} };
+    const sameDay = (a: Date | null, b: Date | null) =>
+      (!a && !b) || (!!a && !!b && a.toDateString() === b.toDateString());
+    const spanOf = (r: GanttRow) =>
+      value.rolledDates[r.id] || model.rolledDates[r.id] || this.getEffectiveDates(r);
+    const progressOf = (r: GanttRow) =>
+      r.id in value.progress ? value.progress[r.id] : model.progress[r.id];
+    // Walk up from the dragged row; "seen" guards against parentId cycles
+    const seen: Record<string, boolean> = { [edit.rowId]: true };
+    let row: GanttRow | undefined = model.byId[edit.rowId];
+    while (row && row.parentId && !seen[row.parentId] && model.byId[row.parentId]) {
+      const parent: GanttRow = model.byId[row.parentId];
+      seen[parent.id] = true;
+      const kids = model.childrenMap[parent.id] || [];
+      if (this.props.rollupDates) {
+        let start: Date | null = null;
+        let end: Date | null = null;
+        kids.forEach((k) => {
+          const ks = spanOf(k);
+          if (ks.start && (!start || ks.start < start)) start = ks.start;
+          if (ks.end && (!end || ks.end > end)) end = ks.end;
+        });
+        const own = this.getCommittedDates(parent);
+        const rolled = { start: start || own.start, end: end || own.end };
+        value.rolledDates[parent.id] = {
+          ...rolled,
+          mismatch: !sameDay(own.start, rolled.start) || !sameDay(own.end, rolled.end),
+        };
+      }
+      if (this.props.rollupProgress) {
+        let weighted = 0;
+        let totalWeight = 0;
+        kids.forEach((k) => {
+          if ((k.rowType || "").toLowerCase() === "milestone") return;
+          const { start: s, end: e } = this.getEffectiveDates(k);
+          const weight = s && e ? Math.max(DAY, Number(e) - Number(s)) : DAY;
+          weighted += (progressOf(k) || 0) * weight;
+          totalWeight += weight;
+        });
+        value.progress[parent.id] = Math.max(
+          0,
+          Math.min(100, totalWeight ? weighted / totalWeight : 0)
+        );
+      }
+      row = parent;
+    }
+    // The swimlane header is the nearest group row above the dragged row
+    const index = model.displayIndex[edit.rowId];
+    for (let i = index; this.state.groupBy !== "none" && i >= 0; i--) {
+      const item = model.displayRows[i];
+      if (item.kind !== "group") continue;
+      let start: Date | null = null;
+      let end: Date | null = null;
+      item.group.rows.forEach((r) => {
+        const { start: s, end: e } = this.getEffectiveDates(r);
+        if (s && (!start || s < start)) start = s;
+        if (e && (!end || e > end)) end = e;
+      });
+      value.groupSpans[item.group.key] = { start, end };
+      break;
+    }
+    this.liveRollupCache = { model, edit, value };
+    return value;
+  }
+
+  /**
+   * Resource load of one timeline segment, computed the first time the segment is rendered
+   * and kept with the model.
+   */
+  private getResourceLoads(model: GanttModel, index: number): ResourceLoad[] {
+    const cached = model.resourceLoads[index];
+    if (cached) return cached;
+    const segments = this.getSegments();
+    const { end } = this.getTimelineBounds();
+    const segEnd =
+      index + 1 < segments.length
+        ? segments[index + 1].start
+        : new Date(end.getFullYear(), end.getMonth(), end.getDate() + 1);
+    const loads = this.computeResourceLoad(model.loadRows, {
+      start: segments[index].start,
+      end: segEnd,
+    });
+    model.resourceLoads[index] = loads;
+    return loads;
+  }
+
+  private toggleGroup = (key: string) => {
+    const k = this.state.groupBy + ":" + key;
+    this.setState((prev) => ({
+      collapsedGroups: { ...prev.collapsedGroups, [k]: !prev.collapsedGroups[k] },
+    }));
+  };
+
+  private renderChevron(expanded: boolean) {
+    return (
+      <svg viewBox="0 0 12 12" width={10} height={10} focusable="false">
+        <path
+          d={expanded ? "M2.5 4h7L6 8.5z" : "M4 2.5v7L8.5 6z"}
+          fill="currentColor"
+        />
+      </svg>
+    );
+  }
+
+  private toggleSort = (field: SortField) => {
+    this.setState((prev) => {
+      if (prev.sortField === field) {
+        // toggle direction
+        const newDir = prev.sortDir === "asc" ? "desc" : "asc";
+        return { ...prev, sortDir: newDir };
+      }
+      return { ...prev, sortField: field, sortDir: "asc" };
+    });
+  };
 
   // Helpers for month-based scaling
-  private getTimelineBounds(): { start: Date; end: Date; months: Date[] } {
-    // Determine min start and max end from dataset
+  /**
+   * True when the ganttStartDate/ganttEndDate window drives the timeline range.
+   */
+  private isWindowed(): boolean {
+    const { ganttStartDate, ganttEndDate } = this.props;
+    return (
+      this.state.timelineFit === "window" &&
+      !!ganttStartDate &&
+      !!ganttEndDate &&
+      ganttStartDate < ganttEndDate
+    );
+  }
+
+  // Bounds and segments are read for every bar position, so they are kept until the
+  // data, zoom level or timeline range changes
+  private getTimelineBounds(): TimelineBounds {
+    const key = [
+      this.state.zoomLevel,
+      this.state.timelineFit,
+      Number(this.props.ganttStartDate),
+      Number(this.props.ganttEndDate),
+    ].join("|");
+    const cache = this.boundsCache;
+    if (cache && cache.data === this.props.data && cache.key === key) return cache.value;
+    const value = this.computeTimelineBounds();
+    this.boundsCache = { key, data: this.props.data, value };
+    return value;
+  }
+
+  private computeTimelineBounds(): TimelineBounds {
+    // Determine min start and max end from dataset, or take the configured window
     let minStart: Date | null = null;
     let maxEnd: Date | null = null;
-    this.props.data.forEach((r) => {
-      if (r.startDate && (!minStart || r.startDate < minStart))
-        minStart = r.startDate;
-      if (r.endDate && (!maxEnd || r.endDate > maxEnd)) maxEnd = r.endDate;
-      // include milestones
-      r.milestones.forEach((m) => {
-        if (m.startDate && (!minStart || m.startDate < minStart))
-          minStart = m.startDate;
-        if (m.endDate && (!maxEnd || m.endDate > maxEnd)) maxEnd = m.endDate;
+    if (this.isWindowed()) {
+      minStart = this.props.ganttStartDate;
+      maxEnd = this.props.ganttEndDate;
+    } else {
+      this.props.data.forEach((r) => {
+        if (r.startDate && (!minStart || r.startDate < minStart))
+          minStart = r.startDate;
+        if (r.endDate && (!maxEnd || r.endDate > maxEnd)) maxEnd = r.endDate;
       });
-    });
+    }
     if (!minStart) minStart = this.props.ganttStartDate;
     if (!maxEnd) maxEnd = this.props.ganttEndDate;
-    // Normalize to month starts
-    const start = new Date(minStart.getFullYear(), minStart.getMonth(), 1);
-    const lastMonthStart = new Date(maxEnd.getFullYear(), maxEnd.getMonth(), 1);
+    // Normalize to month starts (quarter starts in quarter view, so columns hold whole quarters)
+    const quarterPad = (d: Date) =>
+      this.state.zoomLevel === "quarter" ? d.getMonth() % 3 : 0;
+    const start = new Date(
+      minStart.getFullYear(),
+      minStart.getMonth() - quarterPad(minStart),
+      1
+    );
+    const lastMonthStart = new Date(
+      maxEnd.getFullYear(),
+      maxEnd.getMonth() - quarterPad(maxEnd) + (this.state.zoomLevel === "quarter" ? 2 : 0),
+      1
+    );
     const months: Date[] = [];
     let cursor = new Date(start.getTime());
     while (cursor <= lastMonthStart) {
@@ -497,74 +2231,763 @@ export class GanttViewControl extends React.Component<
     return { start, end, months };
   }
 
-  private getSegments(): { start: Date; label: string }[] {
+  private getSegments(): TimelineSegment[] {
+    const bounds = this.getTimelineBounds();
+    const key = [
+      this.state.zoomLevel,
+      this.getWeekStart(),
+      this.props.weekLabel || "",
+      this.props.locale || "",
+      this.props.strings ? JSON.stringify(this.props.strings) : "",
+    ].join("|");
+    const cache = this.segmentsCache;
+    if (cache && cache.bounds === bounds && cache.key === key) return cache.value;
+    const value = this.computeSegments(bounds);
+    this.segmentsCache = { key, bounds, value };
+    return value;
+  }
+
+  private computeSegments({ start, end }: TimelineBounds): TimelineSegment[] {
+    const segments: TimelineSegment[] = [];
+    const z = this.state.zoomLevel;
+    if (z === "day") {
+      let cursor = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+      while (cursor <= end) {
+        const dow = cursor.getDay();
+        segments.push({
+          start: new Date(cursor.getTime()),
+          label: String(cursor.getDate()),
+          title: this.getFormatters().longDate.format(cursor),
+          weekend: dow === 0 || dow === 6,
+        });
+        cursor.setDate(cursor.getDate() + 1);
+      }
+    } else if (z === "quarter") {
+      // Bounds are quarter-aligned, so every column is a whole quarter
+      let cursor = new Date(start.getFullYear(), start.getMonth(), 1);
+      while (cursor <= end) {
+        segments.push({
+          start: new Date(cursor.getTime()),
+          label: this.formatText(
+            "quarterLabel",
+            Math.floor(cursor.getMonth() / 3) + 1,
+            (cursor.getFullYear() % 100).toString().padStart(2, "0")
+          ),
+        });
+        cursor.setMonth(cursor.getMonth() + 3);
+      }
+    } else if (z === "month") {
+      let cursor = new Date(start.getFullYear(), start.getMonth(), 1);
+      while (cursor <= end) {
+        segments.push({
+          start: new Date(cursor.getTime()),
+          label:
+            this.getFormatters().shortMonth.format(cursor) +
+            " " +
+            (cursor.getFullYear() % 100).toString().padStart(2, "0"),
+        });
+        cursor.setMonth(cursor.getMonth() + 1);
+      }
+    } else if (z === "week") {
+      // Move cursor to the first day of the starting week
+      let cursor = this.startOfWeek(start);
+      while (cursor <= end) {
+        const wkStart = new Date(cursor.getTime());
+        segments.push({
+          start: wkStart,
+          label: this.getWeekLabel(wkStart),
+          title: this.getWeekTitle(wkStart),
+        });
+        cursor.setDate(cursor.getDate() + 7);
+      }
+    } else if (z === "year") {
+      // year segments
+      let y = start.getFullYear();
+      const lastY = end.getFullYear();
+      while (y <= lastY) {
+        const yStart = new Date(y, 0, 1);
+        segments.push({ start: yStart, label: String(y) });
+        y += 1;
+      }
+    }
+    if (segments.length === 0) segments.push({ start, label: "" });
+    return segments;
+  }
+
+  private getWeekStart(): number {
+    const ws = this.props.weekStart;
+    return ws !== undefined && ws >= 0 && ws <= 6 ? ws : 1;
+  }
+
+  /**
+   * Local midnight of the first day of the week containing d.
+   */
+  private startOfWeek(d: Date): Date {
+    const diff = (d.getDay() - this.getWeekStart() + 7) % 7;
+    return new Date(d.getFullYear(), d.getMonth(), d.getDate() - diff);
+  }
+
+  /**
+   * ISO-8601 week number and week-year. Weeks that do not start on Monday take the
+   * number of their fourth day, which for Monday weeks is the ISO Thursday rule.
+   */
+  private getIsoWeek(wkStart: Date): { week: number; year: number } {
+    const mid = new Date(wkStart.getFullYear(), wkStart.getMonth(), wkStart.getDate() + 3);
+    // Thursday of mid's ISO week decides the week-year
+    const thursday = new Date(
+      mid.getFullYear(),
+      mid.getMonth(),
+      mid.getDate() + 3 - ((mid.getDay() + 6) % 7)
+    );
+    const firstThursday = new Date(thursday.getFullYear(), 0, 4);
+    firstThursday.setDate(firstThursday.getDate() + 3 - ((firstThursday.getDay() + 6) % 7));
+    const week =
+      1 + Math.round((Number(thursday) - Number(firstThursday)) / (7 * 86400000));
+    return { week, year: thursday.getFullYear() };
+  }
+
+  private getWeekLabel(wkStart: Date): string {
+    const { week } = this.getIsoWeek(wkStart);
+    const date = this.getFormatters().dayMonth.format(wkStart);
+    const number = this.formatText("weekNumber", week);
+    if (this.props.weekLabel === "startDate") return date;
+    if (this.props.weekLabel === "both") return `${number} ${date}`;
+    return number;
+  }
+
+  private getWeekTitle(wkStart: Date): string {
+    const { week, year } = this.getIsoWeek(wkStart);
+    return this.formatText(
+      "weekStarts",
+      `${year}-W${String(week).padStart(2, "0")}`,
+      this.getFormatters().longDate.format(wkStart)
+    );
+  }
+
+  /**
+   * Upper header tier grouping consecutive segments: years above months and quarters,
+   * months above weeks, weeks above days. Year view has no upper tier.
+   */
+  private getHeaderTiers(
+    segments: TimelineSegment[]
+  ): { label: string; span: number }[] {
+    const z = this.state.zoomLevel;
+    if (z === "year") return [];
+    const keyFor = (d: Date): [string, string] => {
+      if (z === "day") {
+        const wkStart = this.startOfWeek(d);
+        const { week, year } = this.getIsoWeek(wkStart);
+        return [
+          wkStart.toDateString(),
+          `${year}-W${String(week).padStart(2, "0")} · ${this.getFormatters().dayMonth.format(wkStart)}`,
+        ];
+      }
+      if (z === "week")
+        return [
+          `${d.getFullYear()}-${d.getMonth()}`,
+          `${this.getFormatters().longMonth.format(d)} ${d.getFullYear()}`,
+        ];
+      return [String(d.getFullYear()), String(d.getFullYear())];
+    };
+    const tiers: { key: string; label: string; span: number }[] = [];
+    segments.forEach((seg) => {
+      const [key, label] = keyFor(seg.start);
+      const last = tiers[tiers.length - 1];
+      if (last && last.key === key) last.span += 1;
+      else tiers.push({ key, label, span: 1 });
+    });
+    return tiers;
+  }
+
+  private setZoom = (z: ZoomLevel) => {
+    if (this.state.zoomLevel !== z || this.state.zoomScale !== 1) {
+      this.setState({ zoomLevel: z, zoomScale: 1 }, this.remeasureAndCenter);
+    }
+  };
+
+  /**
+   * Ctrl+wheel (or trackpad pinch) zooms continuously, keeping the date under the cursor in place.
+   */
+  private onWheelZoom = (e: WheelEvent) => {
+    if (!e.ctrlKey) return;
+    const wrapper = this.wrapperRef.current;
+    const geo = this.getColumnLayout();
+    if (!wrapper) return;
+    e.preventDefault();
+    const rect = wrapper.getBoundingClientRect();
+    const viewX = Math.max(geo.fixedWidth, e.clientX - rect.left);
+    const frac =
+      (wrapper.scrollLeft + viewX - geo.fixedWidth) / (geo.timelineWidth || 1);
+    const next = Math.min(
+      MAX_ZOOM_SCALE,
+      Math.max(MIN_ZOOM_SCALE, this.state.zoomScale * Math.exp(-e.deltaY * 0.0015))
+    );
+    if (next === this.state.zoomScale) return;
+    this.setState({ zoomScale: next }, () => this.scrollToFraction(frac, viewX));
+  };
+
+  /**
+   * Scrolls so the timeline position at frac (0-1) sits at viewX pixels from the wrapper's left edge.
+   */
+  private scrollToFraction(frac: number, viewX: number) {
+    const wrapper = this.wrapperRef.current;
+    const geo = this.getColumnLayout();
+    if (!wrapper) return;
+    try {
+      wrapper.scrollLeft = Math.max(
+        0,
+        Math.round(geo.fixedWidth + frac * geo.timelineWidth - viewX)
+      );
+    } catch {}
+  }
+
+  // Click-drag on empty timeline space pans horizontally; bars keep their own drag handling
+  private onPanStart = (e: React.MouseEvent) => {
+    if (e.button !== 0 || this.state.editingBar) return;
+    const target = e.target as HTMLElement;
+    if (
+      !target.closest("tbody") ||
+      target.closest(".sticky-col, .gantt-inline-bar, button, select, input, [role='button']")
+    )
+      return;
+    const wrapper = this.wrapperRef.current;
+    if (!wrapper) return;
+    this.panInfo = { startX: e.clientX, scrollLeft: wrapper.scrollLeft, moved: false };
+    window.addEventListener("mousemove", this.onPanMove);
+    window.addEventListener("mouseup", this.onPanEnd);
+  };
+
+  private onPanMove = (e: MouseEvent) => {
+    const info = this.panInfo;
+    const wrapper = this.wrapperRef.current;
+    if (!info || !wrapper) return;
+    const dx = e.clientX - info.startX;
+    if (!info.moved && Math.abs(dx) < 4) return;
+    info.moved = true;
+    wrapper.classList.add("panning");
+    wrapper.scrollLeft = info.scrollLeft - dx;
+  };
+
+  private onPanEnd = () => {
+    window.removeEventListener("mousemove", this.onPanMove);
+    window.removeEventListener("mouseup", this.onPanEnd);
+    // A pan ends with a click on the row underneath; swallow it so the selection stays
+    if (this.panInfo && this.panInfo.moved) this.suppressClick = true;
+    this.panInfo = undefined;
+    this.wrapperRef.current?.classList.remove("panning");
+  };
+
+  private onWrapperClickCapture = (e: React.MouseEvent) => {
+    if (!this.suppressClick) return;
+    this.suppressClick = false;
+    e.stopPropagation();
+  };
+
+  /**
+   * Date range currently visible in the scrolled timeline area.
+   */
+  private getVisibleRange(): { start: Date; end: Date } | null {
+    const wrapper = this.wrapperRef.current;
+    const geo = this.getColumnLayout();
+    if (!wrapper || !geo.timelineWidth) return null;
+    const span = Number(geo.end) - Number(geo.start);
+    const at = (px: number) =>
+      new Date(
+        Number(geo.start) +
+          (Math.min(geo.timelineWidth, Math.max(0, px)) / geo.timelineWidth) * span
+      );
+    const viewPx = Math.max(0, wrapper.clientWidth - geo.fixedWidth);
+    return {
+      start: at(wrapper.scrollLeft),
+      end: at(wrapper.scrollLeft + viewPx),
+    };
+  }
+
+  /**
+   * Date span covered by the overview brush: all data plus the current timeline range.
+   */
+  private getBrushRange(): { start: Date; end: Date } {
+    const bounds = this.getTimelineBounds();
+    const cache = this.brushRangeCache;
+    if (cache && cache.bounds === bounds && cache.data === this.props.data) return cache.value;
+    let start = bounds.start;
+    let end = bounds.end;
+    this.props.data.forEach((r) => {
+      if (r.startDate && r.startDate < start) start = r.startDate;
+      if (r.endDate && r.endDate > end) end = r.endDate;
+    });
+    const value = { start, end };
+    this.brushRangeCache = { bounds, data: this.props.data, value };
+    return value;
+  }
+
+  /**
+   * Timeline column widths for the measured container, zoom and sticky columns, kept until
+   * one of them or the segments change. Read by rendering as well as scrolling and zooming.
+   */
+  private getColumnLayout(): ColumnLayout {
     const { start, end } = this.getTimelineBounds();
-    const segments: { start: Date; label: string }[] = [];
-    const z = this.state.zoomLevel;
-    if (z === "month") {
-      let cursor = new Date(start.getFullYear(), start.getMonth(), 1);
-      while (cursor <= end) {
-        segments.push({
-          start: new Date(cursor.getTime()),
-          label:
-            cursor.toLocaleString("default", { month: "short" }) +
-            " " +
-            (cursor.getFullYear() % 100).toString().padStart(2, "0"),
-        });
-        cursor.setMonth(cursor.getMonth() + 1);
-      }
-    } else if (z === "week") {
-      // Move cursor to Monday of starting week
-      let cursor = new Date(start.getTime());
-      const day = cursor.getDay();
-      const diffToMonday = (day + 6) % 7; // 0 if Monday
-      cursor.setDate(cursor.getDate() - diffToMonday);
-      while (cursor <= end) {
-        const wkStart = new Date(cursor.getTime());
-        const oneJan = new Date(wkStart.getFullYear(), 0, 1);
-        const weekNum = Math.ceil(
-          (((wkStart as any) - (oneJan as any)) / 86400000 +
-            oneJan.getDay() +
-            1) /
-            7
-        );
-        segments.push({ start: wkStart, label: "W" + weekNum });
-        cursor.setDate(cursor.getDate() + 7);
+    const segments = this.getSegments();
+    const fixedWidth = this.getFixedWidth();
+    const visibleCount = this.getVisibleCount(segments.length);
+    // Compute per-segment width from available width in pixels (exact alignment)
+    // Prefer measured state width, fallback to live wrapper width in case state is stale during zoom swaps
+    const liveWrapper = this.wrapperRef.current;
+    const containerPx =
+      this.state.containerWidth ||
+      (liveWrapper ? liveWrapper.clientWidth : 0) ||
+      0;
+    const key = [
+      containerPx,
+      fixedWidth,
+      this.state.zoomLevel,
+      this.state.zoomScale,
+      this.props.columnViewCount || 0,
+    ].join("|");
+    const cache = this.columnLayoutCache;
+    if (cache && cache.key === key && cache.segments === segments) return cache.value;
+    const availablePx = Math.max(0, containerPx - fixedWidth);
+    // For week/month we want each segment sized so that exactly 'visibleCount' columns fit; remaining columns overflow (scrollable)
+    const zoomScale = this.state.zoomScale;
+    let segWidthPx = Math.max(8, Math.floor(availablePx / visibleCount));
+    if (segWidthPx > 160) segWidthPx = 160; // clamp
+    // Continuous zoom scales the clamped column width
+    if (zoomScale !== 1) segWidthPx = Math.max(2, Math.floor(segWidthPx * zoomScale));
+    let perSegWidths: number[];
+    if (this.state.zoomLevel === "year") {
+      // Fit year view exactly into available width with widths proportional to actual time span of each year
+      const totalMs = Number(end) - Number(start) || 1;
+      perSegWidths = segments.map((seg, i) => {
+        const segStart = seg.start;
+        const segEnd = i + 1 < segments.length ? segments[i + 1].start : end;
+        const segMs = Math.max(0, Number(segEnd) - Number(segStart));
+        const exact = (availablePx * zoomScale * segMs) / totalMs;
+        return Math.max(8, Math.floor(exact));
+      });
+      // Distribute remainder pixels (due to flooring) so sum equals availablePx
+      let sum = perSegWidths.reduce((a, b) => a + b, 0);
+      let remainder = Math.round(availablePx * zoomScale) - sum;
+      let ri = 0;
+      while (remainder !== 0 && perSegWidths.length) {
+        if (remainder > 0) {
+          perSegWidths[ri] += 1;
+          remainder--;
+        } else if (remainder < 0 && perSegWidths[ri] > 8) {
+          perSegWidths[ri] -= 1;
+          remainder++;
+        } else {
+          // If we can't shrink further, break to avoid infinite loop
+          break;
+        }
+        ri = (ri + 1) % perSegWidths.length;
       }
-    } else if (z === "year") {
-      // year segments
-      let y = start.getFullYear();
-      const lastY = end.getFullYear();
-      while (y <= lastY) {
-        const yStart = new Date(y, 0, 1);
-        segments.push({ start: yStart, label: String(y) });
-        y += 1;
+    } else {
+      // Month & Week: create scrollable width (do NOT force sum to availablePx)
+      perSegWidths = new Array(segments.length).fill(segWidthPx);
+    }
+    let tableWidthPx = fixedWidth + perSegWidths.reduce((a, b) => a + b, 0);
+    const maxTableWidth = containerPx * 3 * Math.max(1, zoomScale) + fixedWidth;
+    if (this.state.zoomLevel === 'year' && tableWidthPx > maxTableWidth) {
+      // Only constrain year view to avoid excessive horizontal scroll
+      const scale = (maxTableWidth - fixedWidth) / (tableWidthPx - fixedWidth);
+      perSegWidths = perSegWidths.map(w => Math.max(8, Math.floor(w * scale)));
+      const sum2 = perSegWidths.reduce((a,b)=>a+b,0);
+      const target = maxTableWidth - fixedWidth;
+      if (sum2 !== target && perSegWidths.length) {
+        perSegWidths[perSegWidths.length-1] += (target - sum2);
       }
+      tableWidthPx = fixedWidth + perSegWidths.reduce((a,b)=>a+b,0);
     }
-    if (segments.length === 0) segments.push({ start, label: "" });
-    return segments;
+    const value: ColumnLayout = {
+      fixedWidth,
+      perSegWidths,
+      tableWidthPx,
+      timelineWidth: tableWidthPx - fixedWidth,
+      start,
+      end,
+      virtualCols:
+        this.state.zoomLevel !== "year" && segments.length > VIRTUAL_COL_THRESHOLD,
+    };
+    this.columnLayoutCache = { key, segments, value };
+    return value;
   }
 
-  private setZoom = (z: "month" | "week" | "year") => {
-    if (this.state.zoomLevel !== z) {
-      this.setState({ zoomLevel: z }, () => {
-        // Re-measure after zoom change for precise pixel widths.
-        // In Canvas apps, layout can settle a tick later; schedule a few retries.
-        this.measureTimers.push(
-          window.setTimeout(this.updateContainerWidth, 0)
-        );
-        this.measureTimers.push(
-          window.setTimeout(this.updateContainerWidth, 60)
-        );
-        this.measureTimers.push(
-          window.setTimeout(this.updateContainerWidth, 200)
-        );
-        // Recentering after zoom once sizes are likely stable
-        this.measureTimers.push(
-          window.setTimeout(() => this.centerOnCurrentDate(), 120)
+  /**
+   * Moves the row / column render window to follow the scroll position. Windows are snapped
+   * to whole overscan steps, so state only changes when the viewport nears an edge.
+   */
+  private updateRenderWindow() {
+    const wrapper = this.wrapperRef.current;
+    const table = this.tableRef.current;
+    const layout = this.getColumnLayout();
+    const rowCount = this.getModel().displayRows.length;
+    const virtualRows = rowCount > VIRTUAL_ROW_THRESHOLD;
+    if (!wrapper || !table || (!virtualRows && !layout.virtualCols)) return;
+    const colCount = layout.perSegWidths.length;
+    const segWidth = layout.perSegWidths[0] || 0;
+    let rowHeight = this.state.rowHeight;
+    let rowStart = 0;
+    let rowEnd = rowCount;
+    if (virtualRows) {
+      const first = table.querySelector("tbody tr[data-row-id]") as HTMLElement | null;
+      if (first && first.offsetHeight) rowHeight = first.offsetHeight;
+      // Top of the first display row within the scrolled content
+      const bodyTop =
+        table.getBoundingClientRect().top -
+        wrapper.getBoundingClientRect().top +
+        wrapper.scrollTop +
+        (table.tHead ? table.tHead.offsetHeight : 0);
+      const top = wrapper.scrollTop - bodyTop;
+      const firstVisible = Math.floor(top / rowHeight);
+      const lastVisible = Math.ceil((top + wrapper.clientHeight) / rowHeight);
+      // Steps are even, so the zebra striping keeps its parity
+      rowStart = Math.max(
+        0,
+        Math.floor((firstVisible - ROW_OVERSCAN) / ROW_OVERSCAN) * ROW_OVERSCAN
+      );
+      rowEnd = Math.min(
+        rowCount,
+        Math.ceil((lastVisible + ROW_OVERSCAN) / ROW_OVERSCAN) * ROW_OVERSCAN
+      );
+    }
+    let colStart = 0;
+    let colEnd = colCount;
+    if (layout.virtualCols && segWidth) {
+      const left = wrapper.scrollLeft;
+      const right = left + Math.max(0, wrapper.clientWidth - layout.fixedWidth);
+      colStart = Math.max(
+        0,
+        Math.floor((Math.floor(left / segWidth) - COL_OVERSCAN) / COL_OVERSCAN) *
+          COL_OVERSCAN
+      );
+      colEnd = Math.min(
+        colCount,
+        Math.ceil((Math.ceil(right / segWidth) + COL_OVERSCAN) / COL_OVERSCAN) *
+          COL_OVERSCAN
+      );
+    }
+    const prev = this.state.renderWindow;
+    if (
+      prev &&
+      prev.rowStart === rowStart &&
+      prev.rowEnd === rowEnd &&
+      prev.colStart === colStart &&
+      prev.colEnd === colEnd &&
+      rowHeight === this.state.rowHeight
+    )
+      return;
+    this.setState({ renderWindow: { rowStart, rowEnd, colStart, colEnd }, rowHeight });
+  }
+
+  /**
+   * Background layers drawing the column lines (and day view weekends) behind a timeline cell,
+   * shared by every row. Uniform columns repeat one tile; year columns list each boundary.
+   */
+  private buildGridBackground(
+    segments: TimelineSegment[],
+    widths: number[]
+  ): React.CSSProperties {
+    const line = "var(--gantt-grid-line)";
+    if (this.state.zoomLevel === "year") {
+      let cum = 0;
+      const stops: string[] = [];
+      widths.forEach((w) => {
+        cum += w;
+        stops.push(
+          `transparent ${cum - 1}px`,
+          `${line} ${cum - 1}px`,
+          `${line} ${cum}px`,
+          `transparent ${cum}px`
         );
       });
+      return {
+        backgroundImage: `linear-gradient(to right, ${stops.join(", ")})`,
+        backgroundSize: `${cum}px 100%`,
+        backgroundRepeat: "no-repeat",
+      };
+    }
+    const w = widths[0] || 0;
+    if (!w) return {};
+    const layers = [`linear-gradient(to right, transparent ${w - 1}px, ${line} ${w - 1}px)`];
+    const sizes = [`${w}px 100%`];
+    const positions = ["0 0"];
+    if (this.state.zoomLevel === "day" && segments.length) {
+      // Saturday and Sunday are adjacent: one two-column band per week-wide tile
+      const saturday = (6 - segments[0].start.getDay() + 7) % 7;
+      layers.push(
+        `linear-gradient(to right, var(--gantt-weekend) ${2 * w}px, transparent ${2 * w}px)`
+      );
+      sizes.push(`${7 * w}px 100%`);
+      positions.push(`${saturday * w}px 0`);
+    }
+    return {
+      backgroundImage: layers.join(", "),
+      backgroundSize: sizes.join(", "),
+      backgroundPosition: positions.join(", "),
+    };
+  }
+
+  // Keeps the brush window in sync with the scroll position and reports the visible range
+  private onTimelineScroll = () => {
+    this.updateRenderWindow();
+    this.scheduleViewStateSave();
+    const visible = this.getVisibleRange();
+    if (!visible) return;
+    const win = this.brushWindowRef.current;
+    if (win) {
+      const { start, end } = this.getBrushRange();
+      const span = Number(end) - Number(start) || 1;
+      const left = ((Number(visible.start) - Number(start)) / span) * 100;
+      const width = ((Number(visible.end) - Number(visible.start)) / span) * 100;
+      win.style.left = Math.max(0, left) + "%";
+      win.style.width = Math.max(0.5, Math.min(100 - Math.max(0, left), width)) + "%";
     }
+    if (!this.props.onVisibleRangeChange) return;
+    const signature = visible.start.toDateString() + "|" + visible.end.toDateString();
+    if (signature === this.lastVisibleSignature) return;
+    if (this.visibleRangeTimer) window.clearTimeout(this.visibleRangeTimer);
+    this.visibleRangeTimer = window.setTimeout(() => {
+      this.lastVisibleSignature = signature;
+      this.props.onVisibleRangeChange &&
+        this.props.onVisibleRangeChange(visible.start, visible.end);
+    }, 250);
+  };
+
+  private onBrushStart = (e: React.MouseEvent, mode: "move" | "start" | "end" | "new") => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const strip = this.brushRef.current;
+    const visible = this.getVisibleRange();
+    if (!strip || !visible) return;
+    const { start, end } = this.getBrushRange();
+    const span = Number(end) - Number(start) || 1;
+    const rect = strip.getBoundingClientRect();
+    const x = (e.clientX - rect.left) / (rect.width || 1);
+    this.brushDrag = {
+      mode,
+      originX: x,
+      origStart: mode === "new" ? x : (Number(visible.start) - Number(start)) / span,
+      origEnd: mode === "new" ? x : (Number(visible.end) - Number(start)) / span,
+    };
+    window.addEventListener("mousemove", this.onBrushMove);
+    window.addEventListener("mouseup", this.onBrushEnd);
+  };
+
+  private onBrushMove = (e: MouseEvent) => {
+    const drag = this.brushDrag;
+    const strip = this.brushRef.current;
+    if (!drag || !strip) return;
+    const rect = strip.getBoundingClientRect();
+    const x = Math.min(1, Math.max(0, (e.clientX - rect.left) / (rect.width || 1)));
+    const dx = x - drag.originX;
+    let from = drag.origStart;
+    let to = drag.origEnd;
+    if (drag.mode === "move") {
+      const w = to - from;
+      from = Math.min(1 - w, Math.max(0, from + dx));
+      to = from + w;
+    } else if (drag.mode === "start") {
+      from = Math.min(to - 0.005, Math.max(0, from + dx));
+    } else if (drag.mode === "end") {
+      to = Math.max(from + 0.005, Math.min(1, to + dx));
+    } else {
+      from = Math.min(drag.originX, x);
+      to = Math.max(drag.originX, x);
+      if (to - from < 0.005) return;
+    }
+    const { start, end } = this.getBrushRange();
+    const span = Number(end) - Number(start);
+    this.focusDateRange(
+      new Date(Number(start) + from * span),
+      new Date(Number(start) + to * span),
+      drag.mode === "move"
+    );
+  };
+
+  private onBrushEnd = () => {
+    window.removeEventListener("mousemove", this.onBrushMove);
+    window.removeEventListener("mouseup", this.onBrushEnd);
+    this.brushDrag = undefined;
+  };
+
+  /**
+   * Scrolls (and unless keepZoom, zooms) the timeline so that from-to fills the visible area.
+   * Leaves the fit-to-window range first when the target lies outside it.
+   */
+  private focusDateRange(from: Date, to: Date, keepZoom: boolean) {
+    const wrapper = this.wrapperRef.current;
+    const geo = this.getColumnLayout();
+    if (!wrapper) return;
+    if (this.state.timelineFit === "window" && (from < geo.start || to > geo.end)) {
+      this.setState({ timelineFit: "data" }, () =>
+        this.focusDateRange(from, to, keepZoom)
+      );
+      return;
+    }
+    const span = Number(geo.end) - Number(geo.start) || 1;
+    const frac = (Number(from) - Number(geo.start)) / span;
+    if (keepZoom) {
+      this.scrollToFraction(frac, geo.fixedWidth);
+      return;
+    }
+    const viewPx = Math.max(1, wrapper.clientWidth - geo.fixedWidth);
+    const wanted = (viewPx * span) / Math.max(1, Number(to) - Number(from));
+    const next = Math.min(
+      MAX_ZOOM_SCALE,
+      Math.max(MIN_ZOOM_SCALE, (this.state.zoomScale * wanted) / (geo.timelineWidth || 1))
+    );
+    this.setState({ zoomScale: next }, () => this.scrollToFraction(frac, geo.fixedWidth));
+  }
+
+  /**
+   * "Loaded 3,500 of ~8,000" while pages are arriving, or a warning once maxRecords cut the data short.
+   */
+  private renderLoadStatus() {
+    const status = this.props.loadStatus;
+    if (!status || (!status.loading && !status.truncated)) return null;
+    const shown = this.formatNumber(Math.min(status.loaded, status.maxRecords));
+    const total =
+      status.total !== null && status.total > Math.min(status.loaded, status.maxRecords)
+        ? this.formatNumber(status.total)
+        : null;
+    if (status.truncated) {
+      return (
+        <div
+          className="gantt-load-status truncated"
+          role="alert"
+          title={this.formatText("truncatedTitle")}
+        >
+          <span aria-hidden="true">&#9888;</span>
+          {total !== null
+            ? this.formatText("truncatedOfTotal", shown, total)
+            : this.formatText("truncatedCount", shown)}
+        </div>
+      );
+    }
+    return (
+      <div className="gantt-load-status" role="status" aria-live="polite">
+        <span className="gantt-load-spinner" aria-hidden="true" />
+        {total !== null
+          ? this.formatText("loadedOfTotal", shown, total)
+          : this.formatText("loadedCount", shown)}
+      </div>
+    );
+  }
+
+  /**
+   * Lines of the overview strip. Rows of one colour in the same lane are merged per bucket into
+   * runs, so the element count does not grow with the dataset. Kept until the data, saved date
+   * edits, colours or brush range change.
+   */
+  private getOverviewLines(): React.ReactNode[] {
+    const range = this.getBrushRange();
+    const inputs = [
+      this.props.data,
+      this.props.rowTypes,
+      this.state.startDateOverrides,
+      this.state.endDateOverrides,
+      range,
+    ];
+    const cache = this.overviewCache;
+    if (cache && cache.inputs.every((v, i) => v === inputs[i])) return cache.value;
+    const origin = Number(range.start);
+    const span = Number(range.end) - origin || 1;
+    const bucket = (d: Date) =>
+      Math.min(
+        OVERVIEW_BUCKETS - 1,
+        Math.max(0, Math.floor(((Number(d) - origin) / span) * OVERVIEW_BUCKETS))
+      );
+    // Per lane and colour: +1 where a row starts, -1 after the bucket where it ends
+    const lanes: Record<string, number[]>[] = [];
+    for (let l = 0; l < OVERVIEW_LANES; l++) lanes.push({});
+    this.props.data.forEach((r, i) => {
+      const { start: s, end: e } = this.getCommittedDates(r);
+      if (!s || !e) return;
+      const lane = lanes[i % OVERVIEW_LANES];
+      const color = this.colorFor(r.rowType) || "";
+      const deltas = lane[color] || (lane[color] = new Array(OVERVIEW_BUCKETS + 1).fill(0));
+      const from = bucket(s);
+      deltas[from] += 1;
+      deltas[Math.max(from, bucket(e)) + 1] -= 1;
+    });
+    const value: React.ReactNode[] = [];
+    lanes.forEach((lane, l) =>
+      Object.keys(lane).forEach((color) => {
+        let running = 0;
+        let open = -1;
+        lane[color].forEach((delta, k) => {
+          running += delta;
+          if (running > 0 && open < 0) open = k;
+          if (running > 0 || open < 0) return;
+          value.push(
+            <span
+              key={l + ":" + color + ":" + open}
+              className="overview-line"
+              style={{
+                left: (open / OVERVIEW_BUCKETS) * 100 + "%",
+                width: ((k - open) / OVERVIEW_BUCKETS) * 100 + "%",
+                top: 3 + l * 3 + "px",
+                background: color || undefined,
+              }}
+            />
+          );
+          open = -1;
+        });
+      })
+    );
+    this.overviewCache = { inputs, value };
+    return value;
+  }
+
+  /**
+   * Overview strip above the table: the rows spread over a few lanes and snapped to buckets
+   * across the whole data range (see getOverviewLines), with a draggable window marking the
+   * visible part of the timeline.
+   */
+  private renderOverviewBrush() {
+    return (
+      <div
+        className="gantt-overview"
+        ref={this.brushRef}
+        onMouseDown={(e) => this.onBrushStart(e, "new")}
+        aria-label={this.formatText("timelineOverview")}
+      >
+        {this.getOverviewLines()}
+        <div
+          className="overview-window"
+          ref={this.brushWindowRef}
+          onMouseDown={(e) => this.onBrushStart(e, "move")}
+        >
+          <span
+            className="overview-handle start"
+            onMouseDown={(e) => this.onBrushStart(e, "start")}
+          />
+          <span
+            className="overview-handle end"
+            onMouseDown={(e) => this.onBrushStart(e, "end")}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  private setTimelineFit = (fit: TimelineFit) => {
+    if (this.state.timelineFit !== fit) {
+      this.setState({ timelineFit: fit }, this.remeasureAndCenter);
+    }
+  };
+
+  private remeasureAndCenter = () => {
+    // Re-measure after zoom / range change for precise pixel widths.
+    // In Canvas apps, layout can settle a tick later; schedule a few retries.
+    this.measureTimers.push(window.setTimeout(this.updateContainerWidth, 0));
+    this.measureTimers.push(window.setTimeout(this.updateContainerWidth, 60));
+    this.measureTimers.push(window.setTimeout(this.updateContainerWidth, 200));
+    // Recentering after the change once sizes are likely stable
+    this.measureTimers.push(
+      window.setTimeout(() => this.centerOnCurrentDate(), 120)
+    );
   };
 
   calculateStartX = (date: Date | null) => {
@@ -627,90 +3050,53 @@ export class GanttViewControl extends React.Component<
     if (clipEnd <= clipStart) return 2;
     const widthRatio =
       (Number(clipEnd) - Number(clipStart)) /
-      (Number(winEnd) - Number(winStart));
-    return widthRatio * 100;
-  };
-
-  /**
-   * Creates the Gantt Table element.
-   * @returns teh table elements with the gantt table in it.
-   */
-  GanttTable = () => {
-    const { start, end } = this.getTimelineBounds();
-    const segments = this.getSegments();
-    const { nameWidth, startWidth, endWidth } = this.state;
-    const isWeek = this.state.zoomLevel === "week";
-    // Sticky detail columns: subtract their total width from available timeline space
-    const fixedWidth =
-      nameWidth + (this.props.expandDetails ? startWidth + endWidth : 0);
-    // Determine visible column count: month uses columnViewCount; week uses double columnViewCount; year shows all
-    const desiredVisible =
-      this.state.zoomLevel === "week" || this.state.zoomLevel === "month"
-        ? (() => {
-            const base =
-              this.props.columnViewCount && this.props.columnViewCount > 0
-                ? this.props.columnViewCount
-                : segments.length;
-            return this.state.zoomLevel === "week" ? base * 2 : base;
-          })()
-        : segments.length;
-    const visibleCount = Math.max(1, Math.min(segments.length, desiredVisible));
-    // Compute per-segment width from available width in pixels (exact alignment)
-    // Prefer measured state width, fallback to live wrapper width in case state is stale during zoom swaps
-    const liveWrapper = this.wrapperRef.current;
-    const containerPx =
-      this.state.containerWidth ||
-      (liveWrapper ? liveWrapper.clientWidth : 0) ||
-      0;
-    const availablePx = Math.max(0, containerPx - fixedWidth);
-    // For week/month we want each segment sized so that exactly 'visibleCount' columns fit; remaining columns overflow (scrollable)
-    let segWidthPx = Math.max(8, Math.floor(availablePx / visibleCount));
-    if (segWidthPx > 160) segWidthPx = 160; // clamp
-    let perSegWidths: number[];
-    if (this.state.zoomLevel === "year") {
-      // Fit year view exactly into available width with widths proportional to actual time span of each year
-      const totalMs = Number(end) - Number(start) || 1;
-      perSegWidths = segments.map((seg, i) => {
-        const segStart = seg.start;
-        const segEnd = i + 1 < segments.length ? segments[i + 1].start : end;
-        const segMs = Math.max(0, Number(segEnd) - Number(segStart));
-        const exact = (availablePx * segMs) / totalMs;
-        return Math.max(8, Math.floor(exact));
-      });
-      // Distribute remainder pixels (due to flooring) so sum equals availablePx
-      let sum = perSegWidths.reduce((a, b) => a + b, 0);
-      let remainder = availablePx - sum;
-      let ri = 0;
-      while (remainder !== 0 && perSegWidths.length) {
-        if (remainder > 0) {
-          perSegWidths[ri] += 1;
-          remainder--;
-        } else if (remainder < 0 && perSegWidths[ri] > 8) {
-          perSegWidths[ri] -= 1;
-          remainder++;
-        } else {
-          // If we can't shrink further, break to avoid infinite loop
-          break;
-        }
-        ri = (ri + 1) % perSegWidths.length;
-      }
-    } else {
-      // Month & Week: create scrollable width (do NOT force sum to availablePx)
-      perSegWidths = new Array(segments.length).fill(segWidthPx);
-    }
-    let tableWidthPx = fixedWidth + perSegWidths.reduce((a, b) => a + b, 0);
-    const maxTableWidth = containerPx * 3 + fixedWidth;
-    if (this.state.zoomLevel === 'year' && tableWidthPx > maxTableWidth) {
-      // Only constrain year view to avoid excessive horizontal scroll
-      const scale = (maxTableWidth - fixedWidth) / (tableWidthPx - fixedWidth);
-      perSegWidths = perSegWidths.map(w => Math.max(8, Math.floor(w * scale)));
-      const sum2 = perSegWidths.reduce((a,b)=>a+b,0);
-      const target = maxTableWidth - fixedWidth;
-      if (sum2 !== target && perSegWidths.length) {
-        perSegWidths[perSegWidths.length-1] += (target - sum2);
-      }
-      tableWidthPx = fixedWidth + perSegWidths.reduce((a,b)=>a+b,0);
-    }
+      (Number(winEnd) - Number(winStart));
+    return widthRatio * 100;
+  };
+
+  /**
+   * Creates the Gantt Table element.
+   * @returns teh table elements with the gantt table in it.
+   */
+  GanttTable = () => {
+    const { start, end } = this.getTimelineBounds();
+    const segments = this.getSegments();
+    const { nameWidth, startWidth, endWidth, assignedWidth } = this.state;
+    // Narrow columns (week/day) get the compact layout
+    const isWeek = this.state.zoomLevel === "week" || this.state.zoomLevel === "day";
+    // Sticky detail columns: subtract their total width from available timeline space
+    const fixedWidth = this.getFixedWidth();
+    const assignedLeft =
+      nameWidth + (this.props.expandDetails ? startWidth + endWidth : 0);
+    const { perSegWidths, tableWidthPx, virtualCols } = this.getColumnLayout();
+    // Column windowing: with many uniform columns only those near the viewport get header,
+    // totals and load cells; the others collapse into a spacer cell on either side
+    const win = this.state.renderWindow;
+    const colStart = virtualCols && win ? Math.min(win.colStart, segments.length) : 0;
+    const colEnd = virtualCols
+      ? Math.min(segments.length, win ? win.colEnd : COL_OVERSCAN * 8)
+      : segments.length;
+    const windowSegments = segments.slice(colStart, colEnd);
+    const colSpacer = (
+      key: string,
+      from: number,
+      to: number,
+      header: boolean,
+      className?: string
+    ) => {
+      if (to <= from) return null;
+      const style: React.CSSProperties = {
+        width: perSegWidths.slice(from, to).reduce((a, b) => a + b, 0) + "px",
+        padding: 0,
+      };
+      return header ? (
+        <th key={key} colSpan={to - from} className="timeline-seg-spacer" style={style} />
+      ) : (
+        <td key={key} colSpan={to - from} className={className} style={style} />
+      );
+    };
+    // One background grid shared by all data rows instead of a grid element per row
+    const gridStyle = this.buildGridBackground(segments, perSegWidths);
     // Build year pixel map for precise date alignment
     let yearSegMeta: { start: Date; end: Date; width: number; cum: number }[] = [];
     let yearPixelTotal = 0;
@@ -758,45 +3144,271 @@ export class GanttViewControl extends React.Component<
     const currentDateX = this.state.zoomLevel === 'year'
       ? yearDateToPct(this.props.currentDate)
       : this.calculateStartX(this.props.currentDate);
+    const rangeToPct = (s: Date | null, e: Date | null) => {
+      let left = this.calculateStartX(s);
+      let width = this.calculateEndWidth(s, e);
+      if (this.state.zoomLevel === 'year') {
+        const yr = yearRangeToPct(s, e);
+        if (yr) { left = yr.left; width = yr.width; }
+      }
+      return { left, width };
+    };
 
-    // Compute per-segment totals: number of project and tender rows overlapping each segment
-    const totals = segments.map((seg, i) => {
-      const segStart = seg.start;
-      const segEnd = i + 1 < segments.length ? segments[i + 1].start : end;
-      let project = 0;
-      let tender = 0;
-      this.props.data.forEach((r) => {
-        if (!r || !r.startDate || !r.endDate) return;
-        const rType = (r.rowType || "").toLowerCase();
-        if (rType === "milestone") return; // ignore milestones for totals
-        if (rType === "unknown") return; // skip unknown types from per-segment totals
-        const effectiveEnd = this.state.endDateOverrides[r.id] || r.endDate;
-        // overlap if ranges intersect (inclusive)
-        if (r.startDate <= segEnd && effectiveEnd >= segStart) {
-          if (rType === "tender") tender += 1;
-          else project += 1; // default bucket
-        }
-      });
-      return { project, tender };
-    });
-
-    // Compute overall totals across the dataset (excluding milestones)
-    const overall = this.props.data.reduce(
-      (acc, r) => {
-        if (!r) return acc;
-        const t = (r.rowType || "").toLowerCase();
-        if (t === "milestone" || t === "unknown") return acc;
-        if (t === "tender") acc.tender += 1;
-        else if (t === "project") acc.project += 1;
-        return acc;
-      },
-      { project: 0, tender: 0 }
+    const model = this.getModel();
+    const totals = model.segmentTotals.slice(colStart, colEnd);
+    const overall = model.totals;
+    const timelinePx = tableWidthPx - fixedWidth;
+    const progressMap = model.progress;
+    const live = this.getLiveRollup(model);
+    const childrenMap = model.childrenMap;
+    // Resource load per segment from leaf task rows, so parents do not double count
+    const capacity = this.props.resourceCapacity || 0;
+    const resourceLoads = this.props.showResourceLoad
+      ? windowSegments.map((seg, j) => this.getResourceLoads(model, colStart + j))
+      : [];
+    // Scaled to the rendered columns when the timeline is windowed
+    const loadScale = Math.max(
+      capacity,
+      ...resourceLoads.map((seg) => (seg.length ? seg[0].load : 0))
+    );
+    // Empty sticky cells under the date / assigned columns in the footer rows
+    const footerSpacers = (
+      <React.Fragment>
+        {this.props.expandDetails && (
+          <td
+            className="sticky-col sticky-start"
+            style={{
+              width: startWidth + "px",
+              position: "sticky",
+              left: nameWidth,
+              zIndex: 10,
+              background: "white",
+            }}
+          >
+            {/* Spacer */}
+          </td>
+        )}
+        {this.props.expandDetails && (
+          <td
+            className="sticky-col sticky-end"
+            style={{
+              width: endWidth + "px",
+              position: "sticky",
+              left: nameWidth + startWidth,
+              zIndex: 10,
+              background: "white",
+            }}
+          >
+            {/* Spacer */}
+          </td>
+        )}
+        {this.props.showAssigned && (
+          <td
+            className="sticky-col sticky-assigned"
+            style={{
+              width: assignedWidth + "px",
+              position: "sticky",
+              left: assignedLeft,
+              zIndex: 10,
+              background: "white",
+            }}
+          >
+            {/* Spacer */}
+          </td>
+        )}
+      </React.Fragment>
     );
-    const overallTotal = overall.project + overall.tender;
-    const overallPPct = overallTotal
-      ? Math.round((overall.project / overallTotal) * 100)
-      : 0;
-    const overallTPct = overallTotal ? 100 - overallPPct : 0;
+    const rolledDates = model.rolledDates;
+    // Bar geometry for a data row: rolled-up parents are drawn from their descendants
+    // and cannot be dragged; the row being dragged and its ancestors follow the live preview
+    const rowBar = (row: GanttRow) => {
+      const own = this.getEffectiveDates(row);
+      const rolled = (live && live.rolledDates[row.id]) || rolledDates[row.id];
+      const effectiveStart = rolled ? rolled.start : own.start;
+      const effectiveEnd = rolled ? rolled.end : own.end;
+      const { left: leftPct, width: widthPct } = rangeToPct(
+        effectiveStart,
+        effectiveEnd
+      );
+      const isEditing =
+        !!this.state.editingBar && this.state.editingBar.rowId === row.id;
+      // Rows reaching past the timeline range get an arrow at the clipped edge
+      const clippedStart = !!effectiveStart && effectiveStart < start;
+      const clippedEnd = !!effectiveEnd && effectiveEnd > end;
+      const outside: "before" | "after" | null =
+        effectiveEnd && effectiveEnd < start
+          ? "before"
+          : effectiveStart && effectiveStart > end
+          ? "after"
+          : null;
+      let liveLeft = leftPct;
+      let liveWidth = widthPct;
+      if (isEditing) {
+        liveLeft = this.state.editingBar!.liveLeftPct;
+        liveWidth = this.state.editingBar!.liveWidthPct;
+      }
+      return {
+        own,
+        rolled,
+        effectiveStart,
+        effectiveEnd,
+        leftPct,
+        widthPct,
+        liveLeft,
+        liveWidth,
+        isEditing,
+        clippedStart,
+        clippedEnd,
+        outside,
+      };
+    };
+    const displayRows = model.displayRows;
+    // Row windowing: long lists render only the rows near the viewport between two spacers
+    const virtualRows = displayRows.length > VIRTUAL_ROW_THRESHOLD;
+    const rowStart = virtualRows && win ? Math.min(win.rowStart, displayRows.length) : 0;
+    const rowEnd = virtualRows
+      ? Math.min(displayRows.length, win ? win.rowEnd : ROW_OVERSCAN * 3)
+      : displayRows.length;
+    const rowHeight = this.state.rowHeight;
+    const columnCount =
+      1 +
+      (this.props.expandDetails ? 2 : 0) +
+      (this.props.showAssigned ? 1 : 0) +
+      segments.length;
+    const { dependencies, criticalPath, violations: violationsByRow } = model;
+    const showCritical = this.state.showCriticalPath;
+    const renderGroupRow = (cached: GanttGroup, i: number) => {
+      const liveSpan = live && live.groupSpans[cached.key];
+      const group = liveSpan ? { ...cached, ...liveSpan } : cached;
+      const collapsed =
+        !!this.state.collapsedGroups[this.state.groupBy + ":" + group.key];
+      const bar = rangeToPct(group.start, group.end);
+      const toggle = () => this.toggleGroup(group.key);
+      return (
+        <tr key={"g" + i} className="gantt-group-row">
+          <td
+            className="sticky-col sticky-name"
+            style={{
+              width: nameWidth + "px",
+              minWidth: 150,
+              maxWidth: 700,
+              position: "sticky",
+              left: 0,
+              zIndex: 4,
+            }}
+          >
+            <div
+              className="gantt-group-label"
+              role="button"
+              tabIndex={0}
+              aria-expanded={!collapsed}
+              aria-label={this.formatText(collapsed ? "expandItem" : "collapseItem", group.label)}
+              onClick={toggle}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" || e.key === " ") {
+                  e.preventDefault();
+                  toggle();
+                }
+              }}
+            >
+              <span className="gantt-chevron">
+                {this.renderChevron(!collapsed)}
+              </span>
+              <span className="gantt-group-name">{group.label}</span>
+              {this.renderTypePill(group.totals, "tot-merged-pill")}
+            </div>
+          </td>
+          {this.props.expandDetails && (
+            <td
+              className="sticky-col sticky-start"
+              style={{
+                width: startWidth + "px",
+                position: "sticky",
+                left: nameWidth,
+                zIndex: 4,
+              }}
+            >
+              {group.start ? this.formatDate(group.start) : ""}
+            </td>
+          )}
+          {this.props.expandDetails && (
+            <td
+              className="sticky-col sticky-end"
+              style={{
+                width: endWidth + "px",
+                position: "sticky",
+                left: nameWidth + startWidth,
+                zIndex: 4,
+              }}
+            >
+              {group.end ? this.formatDate(group.end) : ""}
+            </td>
+          )}
+          {this.props.showAssigned && (
+            <td
+              className="sticky-col sticky-assigned"
+              style={{
+                width: assignedWidth + "px",
+                position: "sticky",
+                left: assignedLeft,
+                zIndex: 4,
+              }}
+            />
+          )}
+          <td
+            colSpan={segments.length}
+            className="gantt-bar-container timeline-cell"
+            style={{ position: "relative", padding: 0, minHeight: 28 }}
+          >
+            {bar.left != -1 && bar.width != -1 && (
+              <div
+                className="gantt-summary-bar"
+                style={{ left: bar.left + "%", width: bar.width + "%" }}
+                title={`${group.label}\n${this.formatDate(
+                  group.start
+                )} - ${this.formatDate(group.end)}`}
+              />
+            )}
+            {currentDateX != -1 && (
+              <div className="currentdate" style={{ left: currentDateX + "%" }} />
+            )}
+          </td>
+        </tr>
+      );
+    };
+    // Second header tier sits above the segment labels; detail headers span both rows
+    const tiers = this.getHeaderTiers(segments);
+    let tierOffset = 0;
+    const tierWidths = tiers.map((t) => {
+      const w = perSegWidths
+        .slice(tierOffset, tierOffset + t.span)
+        .reduce((a, b) => a + b, 0);
+      tierOffset += t.span;
+      return w;
+    });
+    const headRowSpan = tiers.length ? 2 : 1;
+    const segmentCells = [
+      colSpacer("before", 0, colStart, true),
+      ...windowSegments.map((seg, j) => {
+        const i = colStart + j;
+        const segWidthStyle: React.CSSProperties = {
+          width: perSegWidths[i] + "px",
+          padding: "0",
+          fontSize: "0.7rem",
+        };
+        return (
+          <th
+            key={i}
+            className={"timeline-seg" + (seg.weekend ? " weekend" : "")}
+            style={segWidthStyle}
+            title={seg.title}
+          >
+            {seg.label}
+          </th>
+        );
+      }),
+      colSpacer("after", colEnd, segments.length, true),
+    ];
     const tableStyle: React.CSSProperties = {};
     // For year view always fix the table width to the computed pixel sum to keep headers/body/bars aligned.
     if (this.state.zoomLevel === 'year') {
@@ -805,22 +3417,28 @@ export class GanttViewControl extends React.Component<
       // In scrollable (month/week) only set explicit width when it exceeds container.
       tableStyle.width = tableWidthPx + 'px';
     }
-    return (
+    const table = (
       <table
-        className={"gantt-view-table" + (isWeek ? " is-week" : "")}
+        ref={this.tableRef}
+        className={
+          "gantt-view-table" +
+          (isWeek ? " is-week" : "") +
+          (this.props.showAssigned ? " has-assigned" : "")
+        }
         style={tableStyle}
       >
         <thead>
           <tr>
             <th
               className="sticky-col sticky-name"
+              rowSpan={headRowSpan}
               style={{
                 width: nameWidth + "px",
                 minWidth: 150,
                 maxWidth: 700,
                 position: "sticky",
                 left: 0,
-                zIndex: 5,
+                zIndex: 12,
                 userSelect: this.nameResizeInfo ? "none" : undefined,
               }}
             >
@@ -839,7 +3457,7 @@ export class GanttViewControl extends React.Component<
                     this.toggleSort("name");
                 }}
                 role="button"
-                aria-label="Sort by Project / Tender"
+                aria-label={this.formatText("sortBy", this.formatText("projectTender"))}
                 tabIndex={0}
                 onKeyDown={(e) => {
                   if (e.key === "Enter" || e.key === " ") {
@@ -848,7 +3466,7 @@ export class GanttViewControl extends React.Component<
                   }
                 }}
               >
-                <span className="header-label">Project / Tender</span>
+                <span className="header-label">{this.formatText("projectTender")}</span>
                 {this.renderSortIcon("name")}
                 <span
                   className="col-resize-handle"
@@ -871,10 +3489,10 @@ export class GanttViewControl extends React.Component<
                       });
                     }
                   }}
-                  title="Drag to resize column"
+                  title={this.formatText("dragToResize")}
                   role="separator"
                   aria-orientation="vertical"
-                  aria-label="Resize Project / Tender column"
+                  aria-label={this.formatText("resizeColumn", this.formatText("projectTender"))}
                 >
                   <span className="col-resize-grip" />
                 </span>
@@ -883,11 +3501,12 @@ export class GanttViewControl extends React.Component<
             {this.props.expandDetails && (
               <th
                 className="sticky-col sticky-start"
+                rowSpan={headRowSpan}
                 style={{
                   width: startWidth + "px",
                   position: "sticky",
                   left: nameWidth,
-                  zIndex: 5,
+                  zIndex: 12,
                 }}
               >
                 <div
@@ -901,9 +3520,9 @@ export class GanttViewControl extends React.Component<
                       this.toggleSort("startDate");
                     }
                   }}
-                  aria-label="Sort by Start Date"
+                  aria-label={this.formatText("sortBy", this.formatText("startDate"))}
                 >
-                  <span className="header-label">Start Date</span>
+                  <span className="header-label">{this.formatText("startDate")}</span>
                   {this.renderSortIcon("startDate")}
                 </div>
               </th>
@@ -911,11 +3530,12 @@ export class GanttViewControl extends React.Component<
             {this.props.expandDetails && (
               <th
                 className="sticky-col sticky-end"
+                rowSpan={headRowSpan}
                 style={{
                   width: endWidth + "px",
                   position: "sticky",
                   left: nameWidth + startWidth,
-                  zIndex: 5,
+                  zIndex: 12,
                 }}
               >
                 <div
@@ -929,43 +3549,116 @@ export class GanttViewControl extends React.Component<
                       this.toggleSort("endDate");
                     }
                   }}
-                  aria-label="Sort by End Date"
+                  aria-label={this.formatText("sortBy", this.formatText("endDate"))}
                 >
-                  <span className="header-label">End Date</span>
+                  <span className="header-label">{this.formatText("endDate")}</span>
                   {this.renderSortIcon("endDate")}
                 </div>
               </th>
             )}
-            {segments.map((seg, i) => {
-              const segWidthStyle: React.CSSProperties = {
-                width: perSegWidths[i] + "px",
-                padding: "0",
-                fontSize: "0.7rem",
-              };
-              return (
-                <th key={i} className="timeline-seg" style={segWidthStyle}>
-                  {seg.label}
-                </th>
-              );
-            })}
+            {this.props.showAssigned && (
+              <th
+                className="sticky-col sticky-assigned"
+                rowSpan={headRowSpan}
+                style={{
+                  width: assignedWidth + "px",
+                  position: "sticky",
+                  left: assignedLeft,
+                  zIndex: 12,
+                }}
+              >
+                <div
+                  className="sortable-header"
+                  onClick={() => this.toggleSort("assigned")}
+                  role="button"
+                  tabIndex={0}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter" || e.key === " ") {
+                      e.preventDefault();
+                      this.toggleSort("assigned");
+                    }
+                  }}
+                  aria-label={this.formatText("sortBy", this.formatText("assigned"))}
+                >
+                  <span className="header-label">{this.formatText("assigned")}</span>
+                  {this.renderSortIcon("assigned")}
+                </div>
+              </th>
+            )}
+            {tiers.length
+              ? tiers.map((t, i) => (
+                  <th
+                    key={"tier" + i}
+                    colSpan={t.span}
+                    className="timeline-tier"
+                    style={{ width: tierWidths[i] + "px" }}
+                    title={t.label}
+                  >
+                    <span
+                      className="timeline-tier-label"
+                      style={{ left: fixedWidth + 4 + "px" }}
+                    >
+                      {t.label}
+                    </span>
+                  </th>
+                ))
+              : segmentCells}
           </tr>
+          {tiers.length > 0 && (
+            <tr className="timeline-seg-row">{segmentCells}</tr>
+          )}
         </thead>
+        {rowStart > 0 && (
+          <tbody className="gantt-virtual-spacer">
+            <tr>
+              <td colSpan={columnCount} style={{ height: rowStart * rowHeight + "px" }} />
+            </tr>
+          </tbody>
+        )}
         <tbody>
-          {this.orderGanttRows().map((row, i) => {
-            const effectiveEnd = this.state.endDateOverrides[row.id] || row.endDate;
-            let leftPct = this.calculateStartX(row.startDate);
-            let widthPct = this.calculateEndWidth(row.startDate, effectiveEnd);
-            if (this.state.zoomLevel === 'year') {
-              const yr = yearRangeToPct(row.startDate, effectiveEnd);
-              if (yr) { leftPct = yr.left; widthPct = yr.width; }
-            }
-            let liveWidth = widthPct;
-            if (this.state.editingEnd && this.state.editingEnd.rowId === row.id)
-              liveWidth = this.state.editingEnd.liveWidthPct;
+          {displayRows.slice(rowStart, rowEnd).map((item, j) => {
+            const i = rowStart + j;
+            if (item.kind === "group") return renderGroupRow(item.group, i);
+            const row = item.row;
+            const {
+              own,
+              rolled,
+              effectiveStart,
+              effectiveEnd,
+              leftPct,
+              widthPct,
+              liveLeft,
+              liveWidth,
+              isEditing,
+              clippedStart,
+              clippedEnd,
+              outside,
+            } = rowBar(row);
+            const rollupMismatch = !!rolled && rolled.mismatch;
+            const progress =
+              live && row.id in live.progress ? live.progress[row.id] : progressMap[row.id];
+            const depViolations = violationsByRow[row.id];
+            const cp = criticalPath[row.id];
+            const matchedRules = this.matchFormatRules(
+              row,
+              effectiveStart,
+              effectiveEnd,
+              progress
+            );
+            const ruleStyle = this.resolveRuleStyle(matchedRules);
             const isSelected = this.props.selectedId === row.id;
+            const isCollapsed = item.hasChildren && !!this.state.collapsedRows[row.id];
+            // Collapsed parents summarise the span of everything beneath them
+            const subtreeBar = isCollapsed
+              ? (() => {
+                  const range = this.getSubtreeRange(childrenMap, row.id);
+                  return rangeToPct(range.start, range.end);
+                })()
+              : null;
             return (
               <tr
                 key={i}
+                data-row-id={row.id}
                 className={isSelected ? "active-row" : undefined}
                 onClick={() =>
                   this.props.onSelect &&
@@ -973,11 +3666,14 @@ export class GanttViewControl extends React.Component<
                 }
               >
                 <td
-                  className="sticky-col sticky-name"
+                  className={
+                    "sticky-col sticky-name" +
+                    (matchedRules.length ? " has-rule" : "")
+                  }
                   style={{
                     paddingLeft:
                       (isWeek ? 8 : 15) +
-                      (row.level || 0) * (isWeek ? 14 : 20) +
+                      item.level * (isWeek ? 14 : 20) +
                       "px",
                     width: nameWidth + "px",
                     minWidth: 150,
@@ -985,19 +3681,72 @@ export class GanttViewControl extends React.Component<
                     position: "sticky",
                     left: 0,
                     zIndex: 4,
+                    ["--rule-accent" as any]:
+                      ruleStyle.border || ruleStyle.color || undefined,
                   }}
+                  title={
+                    matchedRules.length
+                      ? matchedRules.map((r) => r.name).join(", ")
+                      : undefined
+                  }
                   onClick={() =>
                     this.props.onSelect &&
                     this.props.onSelect(row.id, row.sourceId, row.rowType)
                   }
                 >
+                  {item.hasChildren ? (
+                    <span
+                      className="gantt-chevron row-toggle"
+                      role="button"
+                      tabIndex={0}
+                      aria-expanded={!isCollapsed}
+                      aria-label={this.formatText(isCollapsed ? "expandItem" : "collapseItem", row.name)}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        this.toggleRow(row.id);
+                      }}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter" || e.key === " ") {
+                          e.preventDefault();
+                          this.toggleRow(row.id);
+                        } else if (e.key === "ArrowRight") {
+                          e.preventDefault();
+                          this.toggleRow(row.id, true);
+                        } else if (e.key === "ArrowLeft") {
+                          e.preventDefault();
+                          this.toggleRow(row.id, false);
+                        }
+                      }}
+                    >
+                      {this.renderChevron(!isCollapsed)}
+                    </span>
+                  ) : (
+                    <span className="gantt-chevron" aria-hidden="true" />
+                  )}
+                  {row.dateErrors && (
+                    <span
+                      className="date-error-badge"
+                      role="img"
+                      aria-label={this.describeDateErrors(row)}
+                      title={this.describeDateErrors(row)}
+                    >
+                      &#9888;
+                    </span>
+                  )}
+                  {ruleStyle.icons.length > 0 && (
+                    <span className="rule-icons" aria-hidden="true">
+                      {ruleStyle.icons.join(" ")}
+                    </span>
+                  )}
                   {row.name}
                 </td>
                 {this.props.expandDetails && (
                   <td
                     className={
                       "sticky-col sticky-start" +
-                      (!row.startDate ? " warn-blank" : "")
+                      (!effectiveStart ? " warn-blank" : "") +
+                      (!effectiveStart && row.dateErrors?.startDate ? " date-error" : "") +
+                      (rollupMismatch ? " rollup-mismatch" : "")
                     }
                     style={{
                       width: startWidth + "px",
@@ -1005,15 +3754,26 @@ export class GanttViewControl extends React.Component<
                       left: nameWidth,
                       zIndex: 4,
                     }}
+                    title={
+                      rollupMismatch
+                        ? this.formatText("storedDate", this.formatDate(own.start))
+                        : !effectiveStart && row.dateErrors?.startDate
+                        ? this.formatText("notValidDate", row.dateErrors.startDate)
+                        : undefined
+                    }
                   >
-                    {this.formatDateDDMMYYYY(row.startDate)}
+                    {!effectiveStart && row.dateErrors?.startDate
+                      ? this.formatText("invalid")
+                      : this.formatDate(effectiveStart)}
                   </td>
                 )}
                 {this.props.expandDetails && (
                   <td
                     className={
                       "sticky-col sticky-end" +
-                      (!row.endDate ? " warn-blank" : "")
+                      (!effectiveEnd ? " warn-blank" : "") +
+                      (!effectiveEnd && row.dateErrors?.endDate ? " date-error" : "") +
+                      (rollupMismatch ? " rollup-mismatch" : "")
                     }
                     style={{
                       width: endWidth + "px",
@@ -1021,28 +3781,57 @@ export class GanttViewControl extends React.Component<
                       left: nameWidth + startWidth,
                       zIndex: 4,
                     }}
+                    title={
+                      rollupMismatch
+                        ? this.formatText("storedDate", this.formatDate(own.end))
+                        : !effectiveEnd && row.dateErrors?.endDate
+                        ? this.formatText("notValidDate", row.dateErrors.endDate)
+                        : undefined
+                    }
+                  >
+                    {!effectiveEnd && row.dateErrors?.endDate
+                      ? this.formatText("invalid")
+                      : this.formatDate(effectiveEnd)}
+                  </td>
+                )}
+                {this.props.showAssigned && (
+                  <td
+                    className="sticky-col sticky-assigned"
+                    style={{
+                      width: assignedWidth + "px",
+                      position: "sticky",
+                      left: assignedLeft,
+                      zIndex: 4,
+                    }}
+                    title={row.assigned || undefined}
                   >
-                    {this.formatDateDDMMYYYY(row.endDate)}
+                    {row.assigned}
                   </td>
                 )}
                 <td
                   colSpan={segments.length}
                   className="gantt-bar-container timeline-cell"
-                  style={{ position: "relative", padding: 0, minHeight: 28 }}
+                  style={{ position: "relative", padding: 0, minHeight: 28, ...gridStyle }}
                 >
                   {leftPct != -1 && widthPct != -1 && (
                     <div
                       className={
                         "gantt-inline-bar" +
-                        (this.state.editingEnd &&
-                        this.state.editingEnd.rowId === row.id
-                          ? " editing"
-                          : "")
+                        (isEditing ? " editing" : "") +
+                        (this.props.adjustableStartDate && !rolled ? " movable" : "") +
+                        (rolled ? " rolled-up" : "") +
+                        (rollupMismatch ? " rollup-mismatch" : "") +
+                        (depViolations ? " dep-violation" : "") +
+                        (showCritical && cp && cp.critical ? " critical" : "") +
+                        (ruleStyle.border ? " rule-border" : "") +
+                        (clippedStart ? " clipped-start" : "") +
+                        (clippedEnd ? " clipped-end" : "")
                       }
                       style={{
-                        left: leftPct + "%",
+                        left: liveLeft + "%",
                         width: liveWidth + "%",
-                        background: this.colorFor(row.rowType),
+                        background: ruleStyle.color || this.colorFor(row.rowType),
+                        ["--rule-border" as any]: ruleStyle.border,
                       }}
                       onClick={(e) => {
                         e.stopPropagation();
@@ -1053,31 +3842,132 @@ export class GanttViewControl extends React.Component<
                             row.rowType
                           );
                       }}
-                      title={`${row.name}\n${this.formatDateDDMMYYYY(
-                        row.startDate
-                      )} - ${this.formatDateDDMMYYYY(effectiveEnd)}`}
+                      title={this.buildBarTitle(
+                        row,
+                        effectiveStart,
+                        effectiveEnd,
+                        progress,
+                        rollupMismatch ? own : undefined,
+                        depViolations,
+                        cp,
+                        matchedRules
+                      )}
                     >
-                      {this.props.adjustableEndDate && (
+                      {clippedStart && (
+                        <span className="bar-clip-arrow start" aria-hidden="true" />
+                      )}
+                      {clippedEnd && (
+                        <span className="bar-clip-arrow end" aria-hidden="true" />
+                      )}
+                      {progress !== undefined && (
+                        <span
+                          className="bar-progress"
+                          style={{ width: progress + "%" }}
+                        />
+                      )}
+                      {progress !== undefined &&
+                        (liveWidth / 100) * timelinePx >= 40 && (
+                          <span className="bar-progress-label">
+                            {Math.round(progress)}%
+                          </span>
+                        )}
+                      {this.props.adjustableStartDate && !rolled && (
+                        <span
+                          className="bar-start-handle"
+                          onMouseDown={(e) =>
+                            this.startBarEdit(
+                              e,
+                              "start",
+                              row,
+                              leftPct,
+                              widthPct,
+                              start,
+                              end
+                            )
+                          }
+                          role="slider"
+                          aria-label={this.formatText("adjustStartDate")}
+                          aria-valuetext={this.formatDate(effectiveStart)}
+                        />
+                      )}
+                      <span
+                        className="bar-body"
+                        onMouseDown={
+                          rolled
+                            ? undefined
+                            : (e) =>
+                                this.startBarEdit(
+                                  e,
+                                  "move",
+                                  row,
+                                  leftPct,
+                                  widthPct,
+                                  start,
+                                  end
+                                )
+                        }
+                      >
+                        {this.props.assignedLabel === "inside" && row.assigned && (
+                          <span className="bar-assigned-label">
+                            {row.assigned}
+                          </span>
+                        )}
+                      </span>
+                      {this.props.adjustableEndDate && !rolled && (
                         <span
                           className="bar-end-handle"
                           onMouseDown={(e) =>
-                            this.startBarEndEdit(
+                            this.startBarEdit(
                               e,
-                              row.id,
+                              "end",
+                              row,
                               leftPct,
-                              liveWidth,
+                              widthPct,
                               start,
                               end
                             )
                           }
                           role="slider"
-                          aria-label="Adjust end date"
-                          aria-valuetext={effectiveEnd?.toDateString()}
+                          aria-label={this.formatText("adjustEndDate")}
+                          aria-valuetext={this.formatDate(effectiveEnd)}
                         />
                       )}
                     </div>
                   )}
-                  {row.milestones.map((m, mi) => {
+                  {outside && (
+                    <span
+                      className={"gantt-offscreen " + outside}
+                      title={this.formatText(
+                        "outsideTimeline",
+                        row.name,
+                        this.formatDate(effectiveStart),
+                        this.formatDate(effectiveEnd)
+                      )}
+                    >
+                      {outside === "before" ? "\u25C0" : "\u25B6"}
+                    </span>
+                  )}
+                  {subtreeBar && subtreeBar.left != -1 && subtreeBar.width != -1 && (
+                    <div
+                      className="gantt-summary-bar subtree"
+                      style={{
+                        left: subtreeBar.left + "%",
+                        width: subtreeBar.width + "%",
+                      }}
+                    />
+                  )}
+                  {leftPct != -1 &&
+                    widthPct != -1 &&
+                    this.props.assignedLabel === "beside" &&
+                    row.assigned && (
+                      <span
+                        className="bar-assigned-beside"
+                        style={{ left: liveLeft + liveWidth + "%" }}
+                      >
+                        {row.assigned}
+                      </span>
+                    )}
+                  {(model.milestones[row.id] || []).map((m, mi) => {
                     let mLeft = this.calculateStartX(m.startDate);
                     let mWidth = this.calculateEndWidth(m.startDate, m.endDate);
                     if (this.state.zoomLevel === 'year') {
@@ -1113,32 +4003,21 @@ export class GanttViewControl extends React.Component<
                       style={{ left: currentDateX + "%" }}
                     />
                   )}
-                  <div
-                    className="timeline-grid"
-                    style={{
-                      position: "absolute",
-                      inset: 0,
-                      display: "flex",
-                      pointerEvents: "none",
-                    }}
-                  >
-                    {segments.map((_, gi) => (
-                      <div
-                        key={gi}
-                        className="grid-seg"
-                        style={{
-                          width: perSegWidths[gi] + "px",
-                          height: "100%",
-                          position: "relative",
-                        }}
-                      />
-                    ))}
-                  </div>
                 </td>
               </tr>
             );
           })}
         </tbody>
+        {rowEnd < displayRows.length && (
+          <tbody className="gantt-virtual-spacer">
+            <tr>
+              <td
+                colSpan={columnCount}
+                style={{ height: (displayRows.length - rowEnd) * rowHeight + "px" }}
+              />
+            </tr>
+          </tbody>
+        )}
         <tfoot>
           <tr className="gantt-totals-row">
             <td
@@ -1162,143 +4041,238 @@ export class GanttViewControl extends React.Component<
                   justifyContent: "space-between",
                 }}
               >
-                <span>Totals</span>
+                <span>{this.formatText("totals")}</span>
                 <div style={{ minWidth: 120 }}>
-                  <div
-                    className="tot-spark"
-                    aria-label={`Overall P ${overall.project}, T ${overall.tender}`}
-                  >
-                    <div
-                      className="tot-spark-part project"
-                      style={{
-                        width: overallPPct + "%",
-                        background: this.props.colors?.[0] || "#FFB74D",
-                      }}
-                    />
-                    <div
-                      className="tot-spark-part tender"
-                      style={{
-                        width: overallTPct + "%",
-                        background: this.props.colors?.[1] || "#90CAF9",
-                      }}
-                    />
-                  </div>
-                  <div
-                    className="tot-merged-pill overall"
-                    aria-label={`Totals Project ${overall.project} Tender ${overall.tender}`}
-                  >
-                    <span className="pill-label">P:</span>
-                    <span className="pill-val">{overall.project}</span>
-                    <span className="pill-sep" />
-                    <span className="pill-label">T:</span>
-                    <span className="pill-val">{overall.tender}</span>
-                  </div>
+                  {this.renderTypeSpark(overall)}
+                  {this.renderTypePill(overall, "tot-merged-pill overall")}
                 </div>
               </div>
             </td>
-            {this.props.expandDetails && (
+            {footerSpacers}
+            {colSpacer("before", 0, colStart, false, "gantt-total-seg")}
+            {totals.map((t, j) => (
               <td
-                className="sticky-col sticky-start"
+                key={colStart + j}
+                className="gantt-total-seg"
                 style={{
-                  width: startWidth + "px",
-                  position: "sticky",
-                  left: nameWidth,
-                  zIndex: 10,
-                  background: "white",
+                  width: perSegWidths[colStart + j] + "px",
+                  padding: "4px 4px",
+                  textAlign: "center",
+                  fontSize: "0.72rem",
+                  background: "#f9fafb",
                 }}
+                title={this.describeTotals(t, "  ")}
               >
-                {/* Spacer to keep alignment; could add label if desired */}
+                {this.renderTypeSpark(t)}
+                {this.renderTypePill(t, "tot-merged-pill")}
               </td>
-            )}
-            {this.props.expandDetails && (
+            ))}
+            {colSpacer("after", colEnd, segments.length, false, "gantt-total-seg")}
+          </tr>
+          {this.props.showResourceLoad && (
+            <tr className="gantt-load-row">
               <td
-                className="sticky-col sticky-end"
+                className="sticky-col sticky-name"
                 style={{
-                  width: endWidth + "px",
+                  width: nameWidth + "px",
+                  minWidth: 150,
+                  maxWidth: 700,
                   position: "sticky",
-                  left: nameWidth + startWidth,
+                  left: 0,
                   zIndex: 10,
+                  fontWeight: 600,
                   background: "white",
                 }}
               >
-                {/* Spacer */}
+                <span>{this.formatText("resourceLoad")}</span>
+                {capacity > 0 && (
+                  <span className="load-capacity-label">
+                    {" "}
+                    {this.formatText("capacity", this.formatLoad(capacity))}
+                  </span>
+                )}
               </td>
-            )}
-            {totals.map((t, i) => {
-              const total = t.project + t.tender;
-              const pPct = total ? Math.round((t.project / total) * 100) : 0;
-              const tPct = total ? 100 - pPct : 0;
-              const projectColor = this.props.colors?.[0] || "#FFB74D";
-              const tenderColor = this.props.colors?.[1] || "#90CAF9";
-              return (
+              {footerSpacers}
+              {colSpacer("before", 0, colStart, false, "gantt-load-seg")}
+              {resourceLoads.map((loads, j) => (
                 <td
-                  key={i}
-                  className="gantt-total-seg"
-                  style={{
-                    width: perSegWidths[i] + "px",
-                    padding: "4px 4px",
-                    textAlign: "center",
-                    fontSize: "0.72rem",
-                    background: "#f9fafb",
-                  }}
-                  title={`Project: ${t.project}  Tender: ${t.tender}`}
+                  key={colStart + j}
+                  className="gantt-load-seg"
+                  style={{ width: perSegWidths[colStart + j] + "px" }}
+                  title={loads
+                    .map(
+                      (l) =>
+                        `${l.person}: ${this.formatLoad(l.load)}` +
+                        (capacity > 0 && l.load > capacity ? " " + this.formatText("overCapacity") : "") +
+                        l.rows.map((r) => `\n  - ${r.name}`).join("")
+                    )
+                    .join("\n")}
                 >
-                  <div
-                    className="tot-spark"
-                    aria-label={`P ${t.project}, T ${t.tender}`}
-                  >
-                    <div
-                      className="tot-spark-part project"
-                      style={{ width: pPct + "%", background: projectColor }}
-                    />
-                    <div
-                      className="tot-spark-part tender"
-                      style={{ width: tPct + "%", background: tenderColor }}
-                    />
-                  </div>
-                  <div
-                    className="tot-merged-pill"
-                    aria-label={`Project ${t.project} Tender ${t.tender}`}
-                  >
-                    <span className="pill-label">P:</span>
-                    <span className="pill-val">{t.project}</span>
-                    <span className="pill-sep" />
-                    <span className="pill-label">T:</span>
-                    <span className="pill-val">{t.tender}</span>
+                  <div className="load-histogram">
+                    {capacity > 0 && loadScale > 0 && (
+                      <span
+                        className="load-capacity-line"
+                        style={{ bottom: (capacity / loadScale) * 100 + "%" }}
+                      />
+                    )}
+                    {loads.map((l) => (
+                      <span
+                        key={l.person}
+                        className={
+                          "load-bar" +
+                          (capacity > 0 && l.load > capacity ? " over" : "")
+                        }
+                        style={{
+                          height: loadScale ? (l.load / loadScale) * 100 + "%" : 0,
+                        }}
+                      />
+                    ))}
                   </div>
                 </td>
-              );
-            })}
-          </tr>
+              ))}
+              {colSpacer("after", colEnd, segments.length, false, "gantt-load-seg")}
+            </tr>
+          )}
         </tfoot>
       </table>
     );
+    return (
+      <div className="gantt-table-inner">
+        {table}
+        {this.renderDependencyLayer(
+          dependencies,
+          rowBar,
+          showCritical ? criticalPath : {}
+        )}
+      </div>
+    );
   };
 
+  /**
+   * Draws elbow connectors between dependent bars over the measured rows.
+   * Each link leaves the predecessor's start or end edge and enters the successor's
+   * start or end edge depending on its type (FS, SS, FF, SF).
+   */
+  private renderDependencyLayer(
+    dependencies: ResolvedDependency[],
+    rowBar: (row: GanttRow) => { liveLeft: number; liveWidth: number },
+    criticalPath: Record<string, CriticalPathItem>
+  ) {
+    const layout = this.state.rowLayout;
+    if (!layout || !dependencies.length) return null;
+    const table = this.tableRef.current;
+    const toX = (pct: number) =>
+      layout.timelineLeft + (pct / 100) * layout.timelineWidth;
+    const GAP = 8;
+    const arrowId = "gantt-dep-arrow-" + this.instanceId;
+    const paths: React.ReactNode[] = [];
+    dependencies.forEach((d, i) => {
+      const fromRow = layout.rows[d.from.id];
+      const toRow = layout.rows[d.to.id];
+      if (!fromRow || !toRow) return; // hidden (collapsed) or not rendered
+      const fb = rowBar(d.from);
+      const tb = rowBar(d.to);
+      if (fb.liveLeft < 0 || fb.liveWidth < 0 || tb.liveLeft < 0 || tb.liveWidth < 0)
+        return;
+      const fromEnd = d.type === "FS" || d.type === "FF";
+      const toStart = d.type === "FS" || d.type === "SS";
+      const x1 = toX(fromEnd ? fb.liveLeft + fb.liveWidth : fb.liveLeft);
+      const x2 = toX(toStart ? tb.liveLeft : tb.liveLeft + tb.liveWidth);
+      const y1 = fromRow.top + fromRow.height / 2;
+      const y2 = toRow.top + toRow.height / 2;
+      const x1o = x1 + (fromEnd ? GAP : -GAP);
+      const x2o = x2 + (toStart ? -GAP : GAP);
+      // Route along the boundary between the two rows so the line never crosses a bar
+      const ym = y2 > y1 ? toRow.top : toRow.top + toRow.height;
+      const critical =
+        !d.violated &&
+        !!criticalPath[d.from.id]?.critical &&
+        !!criticalPath[d.to.id]?.critical;
+      paths.push(
+        <path
+          key={i}
+          className={
+            "dep-link" +
+            (d.violated ? " violated" : "") +
+            (critical ? " critical" : "")
+          }
+          d={`M${x1},${y1} H${x1o} V${ym} H${x2o} V${y2} H${x2}`}
+          markerEnd={`url(#${arrowId}${
+            d.violated ? "-violated" : critical ? "-critical" : ""
+          })`}
+        />
+      );
+    });
+    return (
+      <svg
+        className="gantt-dependency-layer"
+        width={table ? table.offsetWidth : 0}
+        height={table ? table.offsetHeight : 0}
+        aria-hidden="true"
+      >
+        <defs>
+          <marker
+            id={arrowId}
+            viewBox="0 0 8 8"
+            refX="7"
+            refY="4"
+            markerWidth="6"
+            markerHeight="6"
+            orient="auto"
+          >
+            <path d="M0,0 L8,4 L0,8 z" className="dep-arrow" />
+          </marker>
+          <marker
+            id={arrowId + "-violated"}
+            viewBox="0 0 8 8"
+            refX="7"
+            refY="4"
+            markerWidth="6"
+            markerHeight="6"
+            orient="auto"
+          >
+            <path d="M0,0 L8,4 L0,8 z" className="dep-arrow violated" />
+          </marker>
+          <marker
+            id={arrowId + "-critical"}
+            viewBox="0 0 8 8"
+            refX="7"
+            refY="4"
+            markerWidth="6"
+            markerHeight="6"
+            orient="auto"
+          >
+            <path d="M0,0 L8,4 L0,8 z" className="dep-arrow critical" />
+          </marker>
+        </defs>
+        {paths}
+      </svg>
+    );
+  }
+
   /**
    * Renders the the Gantt View element
    * @returns react node with the table element
    */
   render(): React.ReactNode {
-    const projectColor = this.props.colors?.[0];
-    const tenderColor = this.props.colors?.[1];
-    // Compute overall totals for header banner
-    const overallTotals = this.props.data.reduce(
-      (acc, r) => {
-        const t = (r.rowType || "").toLowerCase();
-        if (t === "milestone" || t === "unknown") return acc;
-        if (t === "tender") acc.tender += 1;
-        else if (t === "project") acc.project += 1;
-        else acc.project += 1; // default bucket
-        return acc;
-      },
-      { project: 0, tender: 0 }
+    const rowTypes = this.props.rowTypes || [];
+    const totalTypes = this.getTotalTypes();
+    // Same figures as the footer
+    const overallTotals = this.getModel().totals;
+    const grandTotal = totalTypes.reduce(
+      (sum, t) => sum + Math.max(0, overallTotals[t.type] || 0),
+      0
     );
-    const grandTotal = overallTotals.project + overallTotals.tender;
-    const projectPct = grandTotal
-      ? (overallTotals.project / grandTotal) * 100
-      : 0;
-    const tenderPct = 100 - projectPct;
+    // Hard-stop gradient: one band per type, sized by its share of the total
+    let acc = 0;
+    const bannerStops = totalTypes.map((t) => {
+      const from = acc;
+      acc += grandTotal
+        ? (Math.max(0, overallTotals[t.type] || 0) / grandTotal) * 100
+        : 0;
+      return `${t.color} ${from}%, ${t.color} ${acc}%`;
+    });
+    const abbr = this.getTypeAbbreviations();
     const rootStyle: React.CSSProperties = {
       color: this.props.fontColor || undefined,
       fontSize: this.props.fontSize ? `${this.props.fontSize}px` : undefined,
@@ -1307,7 +4281,7 @@ export class GanttViewControl extends React.Component<
       <div className="gantt-shell" style={rootStyle}>
         <div className="gantt-header-bar">
           {this.props.showFilters && this.props.filtersText && (
-            <div className="gantt-filter-banner" aria-label="Applied filter">
+            <div className="gantt-filter-banner" aria-label={this.formatText("appliedFilter")}>
               <span className="filter-icon" aria-hidden="true">
                 <svg viewBox="0 0 24 24" width="16" height="16">
                   <path
@@ -1316,14 +4290,88 @@ export class GanttViewControl extends React.Component<
                   />
                 </svg>
               </span>
-              <span className="filter-label">Applied filter:</span>
+              <span className="filter-label">{this.formatText("appliedFilter")}</span>
               <span className="filter-text" title={this.props.filtersText}>
                 {this.props.filtersText}
               </span>
             </div>
           )}
+          {this.renderLoadStatus()}
+          <label className="gantt-group-select">
+            <span>{this.formatText("groupBy")}</span>
+            <select
+              value={this.state.groupBy}
+              onChange={(e) =>
+                this.setState({ groupBy: e.target.value as GroupByMode })
+              }
+            >
+              <option value="none">{this.formatText("groupNone")}</option>
+              <option value="assigned">{this.formatText("groupAssigned")}</option>
+              <option value="rowType">{this.formatText("groupRowType")}</option>
+              <option value="startYear">{this.formatText("groupStartYear")}</option>
+            </select>
+          </label>
           <div className="gantt-zoom-controls">
-            {(["year", "month", "week"] as const).map((z) => (
+            <button
+              onClick={() =>
+                this.setState((prev) => ({
+                  showCriticalPath: !prev.showCriticalPath,
+                }))
+              }
+              className={
+                "gantt-zoom-btn" +
+                (this.state.showCriticalPath ? " active" : "")
+              }
+              type="button"
+              aria-pressed={this.state.showCriticalPath}
+            >
+              {this.formatText("criticalPath")}
+            </button>
+            <button
+              onClick={() => this.setTimelineFit("data")}
+              className={
+                "gantt-zoom-btn" +
+                (this.state.timelineFit === "data" ? " active" : "")
+              }
+              type="button"
+              title={this.formatText("fitToDataTitle")}
+            >
+              {this.formatText("fitToData")}
+            </button>
+            <button
+              onClick={() => this.setTimelineFit("window")}
+              className={
+                "gantt-zoom-btn" +
+                (this.state.timelineFit === "window" ? " active" : "")
+              }
+              type="button"
+              title={this.formatText(
+                "fitToWindowTitle",
+                this.formatDate(this.props.ganttStartDate),
+                this.formatDate(this.props.ganttEndDate)
+              )}
+            >
+              {this.formatText("fitToWindow")}
+            </button>
+            <button
+              onClick={this.expandAll}
+              className="gantt-zoom-btn"
+              type="button"
+              title={this.formatText("expandAll")}
+            >
+              {this.formatText("expandAll")}
+            </button>
+            <button
+              onClick={this.collapseAll}
+              className="gantt-zoom-btn"
+              type="button"
+              title={this.formatText("collapseAll")}
+            >
+              {this.formatText("collapseAll")}
+            </button>
+          </div>
+          <div className="gantt-zoom-controls">
+            {(["year", "quarter", "month", "week", "day"] as const).map((z) => (
               <button
                 key={z}
                 onClick={() => this.setZoom(z)}
@@ -1333,58 +4381,64 @@ export class GanttViewControl extends React.Component<
                 }
                 type="button"
               >
-                {z.charAt(0).toUpperCase() + z.slice(1)}
+                {this.formatText(ZOOM_LABEL_KEYS[z])}
               </button>
             ))}
           </div>
           <div className="gantt-legend">
-            <div className="gantt-legend-item">
-              <span
-                className="gantt-legend-swatch"
-                style={{ background: projectColor }}
-              />{" "}
-              Project
-            </div>
-            <div className="gantt-legend-item">
-              <span
-                className="gantt-legend-swatch"
-                style={{ background: tenderColor }}
-              />{" "}
-              Tender
-            </div>
+            {rowTypes.map((t) => (
+              <div className="gantt-legend-item" key={t.type}>
+                <span
+                  className="gantt-legend-swatch"
+                  style={{ background: t.color }}
+                />{" "}
+                {t.label}
+              </div>
+            ))}
+            {(this.props.formatRules || []).map((r, i) => (
+              <div className="gantt-legend-item rule" key={"rule-" + i}>
+                <span
+                  className={"gantt-legend-swatch" + (r.border ? " rule-border" : "")}
+                  style={{
+                    background: r.color || "transparent",
+                    ["--rule-border" as any]: r.border,
+                  }}
+                >
+                  {r.icon}
+                </span>{" "}
+                {r.name}
+              </div>
+            ))}
           </div>
           <div
             className="gantt-total-banner"
-            aria-label={`Totals Project ${overallTotals.project} Tender ${overallTotals.tender}`}
-            title={`Project: ${overallTotals.project}  Tender: ${overallTotals.tender}`}
+            aria-label={this.formatText("totalsLabel", this.describeTotals(overallTotals))}
+            title={this.describeTotals(overallTotals, "  ")}
             style={{
               background: grandTotal
-                ? `linear-gradient(90deg, ${projectColor || "#FFB74D"} 0%, ${
-                    projectColor || "#FFB74D"
-                  } ${projectPct}%, ${
-                    tenderColor || "#90CAF9"
-                  } ${projectPct}%, ${tenderColor || "#90CAF9"} 100%)`
+                ? `linear-gradient(90deg, ${bannerStops.join(", ")})`
                 : undefined,
             }}
           >
-            <span className="tot-lab">P</span>
-            <span
-              className="tot-val"
-              style={{ color: projectColor || "#FFB74D" }}
-            >
-              {overallTotals.project}
-            </span>
-            <span className="tot-sep" />
-            <span className="tot-lab">T</span>
-            <span
-              className="tot-val"
-              style={{ color: tenderColor || "#90CAF9" }}
-            >
-              {overallTotals.tender}
-            </span>
+            {totalTypes.map((t, i) => (
+              <React.Fragment key={t.type}>
+                {i > 0 && <span className="tot-sep" />}
+                <span className="tot-lab">{abbr[t.type]}</span>
+                <span className="tot-val" style={{ color: t.color }}>
+                  {this.formatTotal(overallTotals[t.type] || 0)}
+                </span>
+              </React.Fragment>
+            ))}
           </div>
         </div>
-        <div className="gantt-table-wrapper" ref={this.wrapperRef}>
+        {this.renderOverviewBrush()}
+        <div
+          className="gantt-table-wrapper"
+          ref={this.wrapperRef}
+          onScroll={this.onTimelineScroll}
+          onMouseDown={this.onPanStart}
+          onClickCapture={this.onWrapperClickCapture}
+        >
           {this.GanttTable()}
         </div>
       </div>
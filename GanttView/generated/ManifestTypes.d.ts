@@ -9,8 +9,32 @@ export interface IInputs {
     currentDate: ComponentFramework.PropertyTypes.DateTimeProperty;
     expandDetails: ComponentFramework.PropertyTypes.TwoOptionsProperty;
     colors: ComponentFramework.PropertyTypes.StringProperty;
+    formatRules: ComponentFramework.PropertyTypes.StringProperty;
+    totalsTypes: ComponentFramework.PropertyTypes.StringProperty;
+    totalsMode: ComponentFramework.PropertyTypes.EnumProperty<"count" | "duration" | "sum">;
+    totalsColumn: ComponentFramework.PropertyTypes.StringProperty;
+    showResourceLoad: ComponentFramework.PropertyTypes.TwoOptionsProperty;
+    resourceLoadMode: ComponentFramework.PropertyTypes.EnumProperty<"items" | "days">;
+    resourceCapacity: ComponentFramework.PropertyTypes.DecimalNumberProperty;
+    dateFormat: ComponentFramework.PropertyTypes.StringProperty;
+    dateTimeZone: ComponentFramework.PropertyTypes.EnumProperty<"auto" | "local" | "utc">;
+    displayDateFormat: ComponentFramework.PropertyTypes.StringProperty;
     columnViewCount: ComponentFramework.PropertyTypes.WholeNumberProperty;
     adjustableEndDate: ComponentFramework.PropertyTypes.TwoOptionsProperty;
+    adjustableStartDate: ComponentFramework.PropertyTypes.TwoOptionsProperty;
+    snapUnit: ComponentFramework.PropertyTypes.EnumProperty<"auto" | "day" | "week" | "month">;
+    rollupProgress: ComponentFramework.PropertyTypes.TwoOptionsProperty;
+    progressScale: ComponentFramework.PropertyTypes.EnumProperty<"auto" | "percent" | "fraction">;
+    rollupDates: ComponentFramework.PropertyTypes.TwoOptionsProperty;
+    showAssigned: ComponentFramework.PropertyTypes.TwoOptionsProperty;
+    assignedLabel: ComponentFramework.PropertyTypes.EnumProperty<"none" | "inside" | "beside">;
+    groupBy: ComponentFramework.PropertyTypes.EnumProperty<"none" | "assigned" | "rowType" | "startYear">;
+    weekStart: ComponentFramework.PropertyTypes.EnumProperty<"0" | "1" | "6">;
+    weekLabel: ComponentFramework.PropertyTypes.EnumProperty<"number" | "startDate" | "both">;
+    fitToWindow: ComponentFramework.PropertyTypes.TwoOptionsProperty;
+    showCriticalPath: ComponentFramework.PropertyTypes.TwoOptionsProperty;
+    viewState: ComponentFramework.PropertyTypes.StringProperty;
+    maxRecords: ComponentFramework.PropertyTypes.WholeNumberProperty;
     fontColor: ComponentFramework.PropertyTypes.StringProperty;
     fontSize: ComponentFramework.PropertyTypes.WholeNumberProperty;
     showFilters: ComponentFramework.PropertyTypes.TwoOptionsProperty;
@@ -20,4 +44,14 @@ export interface IInputs {
 export interface IOutputs {
     selectedId?: string;
     selectedRowType?: string;
+    criticalPath?: string;
+    editedId?: string;
+    editedStartDate?: Date;
+    editedEndDate?: Date;
+    visibleStartDate?: Date;
+    visibleEndDate?: Date;
+    viewState?: string;
+    isLoading?: boolean;
+    loadedCount?: number;
+    pendingChanges?: string;
 }
@@ -1,6 +1,139 @@
 import { IInputs, IOutputs } from "./generated/ManifestTypes";
-import { GanttViewControl, IGanttViewControlProps } from "./GanttViewControl";
+import {
+  AssignedLabelMode,
+  BarDateChange,
+  CriticalPathItem,
+  DEFAULT_STRINGS,
+  DependencyType,
+  GanttDependency,
+  GanttStrings,
+  GanttViewControl,
+  GanttViewState,
+  GroupByMode,
+  FormatCondition,
+  FormatRule,
+  IGanttViewControlProps,
+  LoadStatus,
+  ResourceLoadMode,
+  RowTypeStyle,
+  SnapUnit,
+  TotalsMode,
+  WeekLabelMode,
+} from "./GanttViewControl";
 import * as React from "react";
+import * as dayjs from "dayjs";
+import * as customParseFormat from "dayjs/plugin/customParseFormat";
+import * as utc from "dayjs/plugin/utc";
+
+dayjs.extend(customParseFormat);
+dayjs.extend(utc);
+
+// Default colours for the built-in row types; other types take the palette in order
+const DEFAULT_ROW_TYPE_COLORS: Record<string, string> = {
+  project: "#FFB74D",
+  tender: "#90CAF9",
+};
+const ROW_TYPE_PALETTE = [
+  "#A5D6A7",
+  "#CE93D8",
+  "#FFE082",
+  "#80CBC4",
+  "#F48FB1",
+  "#B0BEC5",
+];
+
+// Records requested per dataset page, and the default maxRecords cap
+const PAGE_SIZE = 500;
+const DEFAULT_MAX_RECORDS = 20000;
+
+// yyyy-MM-dd with an optional time; group 1 is the offset that makes it an instant
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?)?(Z|[+-]\d{2}:?\d{2})?$/i;
+
+// How dataset dates are read: dateFormat ("auto", "ISO" or a dayjs format) and dateTimeZone
+interface DateParseOptions {
+  format: string;
+  // Calendar day of an instant: always UTC or local, or in "auto" the UTC day of text with an
+  // offset (Dataverse sends "...T00:00:00Z") and the local day of Date values
+  timeZone: "auto" | "local" | "utc";
+}
+
+/**
+ * Reads a dataset date cell as the local midnight of its calendar day. Date values and
+ * strings with an offset are instants, placed on their UTC or local day per options.timeZone;
+ * other strings are taken as written. ISO 8601 is always accepted, then the configured
+ * format, and in auto mode anything the browser's Date parser understands.
+ * @returns the day, null for an empty cell, or undefined when the value cannot be read
+ */
+const parseDateCell = (
+  raw: unknown,
+  formatted: string | null | undefined,
+  options: DateParseOptions
+): Date | null | undefined => {
+  const toDay = (d: dayjs.Dayjs) => new Date(d.year(), d.month(), d.date());
+  const fromInstant = (d: Date, utc: boolean) =>
+    isNaN(d.getTime()) ? undefined : toDay(utc ? dayjs.utc(d) : dayjs(d));
+  if (raw instanceof Date) return fromInstant(raw, options.timeZone === "utc");
+  if (typeof raw === "number") return fromInstant(new Date(raw), options.timeZone === "utc");
+  const text = (typeof raw === "string" && raw.trim() ? raw : formatted || "").trim();
+  if (!text) return null;
+  const iso = ISO_DATE.exec(text);
+  if (iso) {
+    if (iso[1]) return fromInstant(new Date(text), options.timeZone !== "local");
+    const d = dayjs(text.substring(0, 10), "YYYY-MM-DD", true);
+    return d.isValid() ? toDay(d) : undefined;
+  }
+  const format = options.format.trim();
+  const mode = format.toUpperCase();
+  if (mode === "ISO") return undefined;
+  if (format && mode !== "AUTO") {
+    // Also accept single-digit days and months ("5/3/2024" for DD/MM/YYYY)
+    const relaxed = format.replace(/(^|[^D])DD(?!D)/g, "$1D").replace(/(^|[^M])MM(?!M)/g, "$1M");
+    const d = [format, relaxed]
+      .map((f) => dayjs(text, f, true))
+      .find((p) => p.isValid());
+    return d ? toDay(d) : undefined;
+  }
+  // Strings without an offset are local wall time
+  const ms = Date.parse(text);
+  return isNaN(ms) ? undefined : toDay(dayjs(ms));
+};
+
+// BCP 47 tags for userSettings.languageId (an LCID); other languages use the browser's locale
+const LCID_LOCALES: Record<number, string> = {
+  1031: "de-DE",
+  1033: "en-US",
+  1036: "fr-FR",
+  1040: "it-IT",
+  1043: "nl-NL",
+  1046: "pt-BR",
+  2055: "de-CH",
+  2057: "en-GB",
+  2058: "es-MX",
+  2070: "pt-PT",
+  3079: "de-AT",
+  3081: "en-AU",
+  3082: "es-ES",
+  3084: "fr-CA",
+  4105: "en-CA",
+  5129: "en-NZ",
+};
+
+/**
+ * Converts a .NET date pattern (userSettings shortDatePattern, e.g. "dd/MM/yyyy") to dayjs tokens.
+ */
+const toDayjsFormat = (pattern: string): string =>
+  pattern.replace(/yyyy|yy|dddd|ddd|dd|d|'[^']*'/g, (token) => {
+    if (token.charAt(0) === "'") return "[" + token.slice(1, -1) + "]";
+    if (token === "yyyy") return "YYYY";
+    if (token === "yy") return "YY";
+    if (token === "dd") return "DD";
+    if (token === "d") return "D";
+    return token; // ddd / dddd are day names in both
+  });
+
+// Row types are compared case/spacing-insensitively ("Awarded " == "awarded")
+const normalizeRowType = (value: string): string =>
+  (value || "").toString().trim().toLowerCase().replace(/[^a-z0-9]/g, "");
 
 export class GanttView
   implements ComponentFramework.ReactControl<IInputs, IOutputs>
@@ -10,9 +143,30 @@ export class GanttView
   private selectedId: string | undefined; // output value (Items['id'])
   private selectedUid: string | undefined; // internal row uid for highlight
   private selectedRowType: string | undefined; // output value for row type
-  // Paging state (auto-load all pages)
+  // Date edits made on the timeline, keyed by Items['id'] until the data source reflects them
+  private pendingChanges: Record<
+    string,
+    { id: string; startDate?: Date; endDate?: Date }
+  > = {};
+  private editedId: string | undefined; // output: Items['id'] of the last edited row
+  private editedStartDate: Date | undefined; // output: start date of the last edit
+  private editedEndDate: Date | undefined; // output: end date of the last edit
+  private visibleStartDate: Date | undefined; // output: first date in view on the timeline
+  private visibleEndDate: Date | undefined; // output: last date in view on the timeline
+  // View settings restored from setControlState or the viewState input; output as JSON
+  private viewState: GanttViewState | undefined;
+  // View handed to the control; only replaced on restore or a new viewState input
+  private requestedViewState: GanttViewState | undefined;
+  private appliedViewStateInput: string | undefined; // last viewState input already applied
+  // Last value and JSON signature per prop, see keepIfUnchanged
+  private stableProps: Record<string, { signature: string; value: any }> = {};
+  private criticalPath: { id: string; slack: number; critical: boolean }[] = []; // output as JSON
+  // Paging state (auto-load all pages up to maxRecords)
   private pagingInitialized: boolean = false;
-  private pagingSafetyCounter: number = 0; // safety guard (40 * 500 = 20k)
+  private pageRequestedAt: number = -1; // record count when the last page was requested
+  private isLoading: boolean = false; // output: more pages are on their way
+  private loadedCount: number = 0; // output: records shown, after the maxRecords cap
+  private strings: GanttStrings = DEFAULT_STRINGS; // UI text from the resx for the user's language
 
   // No auxiliary drain function needed in simplified model
 
@@ -34,6 +188,12 @@ export class GanttView
     state: ComponentFramework.Dictionary
   ): void {
     this.notifyOutputChanged = notifyOutputChanged;
+    this.strings = this.loadStrings(context);
+    // Restore the view saved for this session, if any
+    try {
+      const saved = state && state.viewState;
+      if (saved) this.viewState = this.requestedViewState = JSON.parse(saved);
+    } catch {}
   }
 
   /**
@@ -45,28 +205,37 @@ export class GanttView
     context: ComponentFramework.Context<IInputs>
   ): React.ReactElement {
   const records = context.parameters.records;
-    // Simple sequential paging per provided reference snippet
+    const maxRecordsInput = context.parameters.maxRecords?.raw;
+    const maxRecords =
+      maxRecordsInput && maxRecordsInput > 0 ? maxRecordsInput : DEFAULT_MAX_RECORDS;
+    const loadStatus = this.updatePaging(records, maxRecords);
+    if (
+      loadStatus.loading !== this.isLoading ||
+      Math.min(loadStatus.loaded, maxRecords) !== this.loadedCount
+    ) {
+      this.isLoading = loadStatus.loading;
+      this.loadedCount = Math.min(loadStatus.loaded, maxRecords);
+      this.notifyOutputChanged && this.notifyOutputChanged();
+    }
     try {
-      const paging: any = (records as any).paging;
-      if (paging) {
-        if (!this.pagingInitialized && typeof paging.setPageSize === 'function') {
-          try { paging.setPageSize(500); } catch {}
-          this.pagingInitialized = true;
-        }
-        if (typeof paging.hasNextPage === 'function' && paging.hasNextPage()) {
-          if (this.pagingSafetyCounter < 40) {
-            this.pagingSafetyCounter++;
-            try { paging.loadNextPage(); } catch {}
-          }
-        }
-      }
+      console.log(
+        "[GanttView] Record count:",
+        records.sortedRecordIds.length,
+        loadStatus.loading ? "(loading more)" : loadStatus.truncated ? "(capped)" : "(all pages loaded)"
+      );
     } catch {}
-    try { console.log('[GanttView] Record count (all pages loaded):', records.sortedRecordIds.length); } catch {}
+    // Records past the cap (the rest of the last page) are left out
+    const recordIds = records.sortedRecordIds.slice(0, maxRecords);
     const colorsRaw = context.parameters as any; // colors may be undefined
     const colorsValue: string | undefined = colorsRaw.colors?.raw ?? undefined;
 
-    const parseColors = (input?: string): string[] => {
-      if (!input) return [];
+    // Accepts a JSON map {"bid":"#A5D6A7"}, a JSON array, a "type: colour" list
+    // or plain colours (positional: project, tender, then remaining row types)
+    const parseColors = (
+      input?: string
+    ): { keyed: Record<string, string>; positional: string[] } => {
+      const result = { keyed: {} as Record<string, string>, positional: [] as string[] };
+      if (!input) return result;
       let val = input.trim();
       // Strip wrapping quotes
       if (
@@ -75,132 +244,245 @@ export class GanttView
       ) {
         val = val.substring(1, val.length - 1).trim();
       }
-      // JSON array style
-      if (val.startsWith("[")) {
+      // JSON object / array style
+      if (val.startsWith("{") || val.startsWith("[")) {
         try {
-          const arr = JSON.parse(val);
-          if (Array.isArray(arr)) {
-            return arr
+          const parsed = JSON.parse(val);
+          if (Array.isArray(parsed)) {
+            result.positional = parsed
               .map((v) => String(v).trim())
               .filter((v) => v)
               .map((v) => v.replace(/^['"]|['"]$/g, ""));
+            return result;
+          }
+          if (parsed && typeof parsed === "object") {
+            Object.keys(parsed).forEach((k) => {
+              const key = normalizeRowType(k);
+              const colour = String(parsed[k] ?? "").trim();
+              if (key && colour) result.keyed[key] = colour;
+            });
+            return result;
           }
         } catch (e) {
           // fall through to manual parsing
         }
-        // Remove brackets / quotes
-        val = val.replace(/[\[\]"]/g, "");
+        // Remove brackets / braces / quotes
+        val = val.replace(/[\[\]{}"]/g, "");
       }
       // Split on common separators
       const parts = val
         .split(/[,;\n\|]/)
         .map((s) => s.trim())
         .filter(Boolean);
-      const cleaned: string[] = [];
       for (const p of parts) {
-        // Accept formats like "project:#FFA", "tender=#00F", "color: orange"
-        const kv = p.split(/[:=]/);
-        let token = p;
-        if (kv.length >= 2) {
-          token = kv.slice(1).join(":"); // everything after first sep
+        // Accept formats like "project:#FFA", "tender=#00F", "bid: orange"
+        const m = /^([^:=]+)[:=](.+)$/.exec(p);
+        if (m) {
+          const key = normalizeRowType(m[1]);
+          const colour = m[2].replace(/^['"]|['"]$/g, "").trim();
+          if (key && colour) result.keyed[key] = colour;
+          continue;
+        }
+        // Space-separated pairs such as "project #FFA" or "bid orange"
+        const pair = /^(\S+)\s+(#[0-9a-f]{3,8}|\w+)$/i.exec(p.replace(/^['"]|['"]$/g, "").trim());
+        if (pair) {
+          const key = normalizeRowType(pair[1]);
+          if (key) result.keyed[key] = pair[2];
+          continue;
         }
-        token = token.replace(/^['"]|['"]$/g, "").trim();
-        // Drop leading words like 'project' or 'tender'
-        token = token.replace(/^(project|tender)\s*/i, "").trim();
-        if (token) cleaned.push(token);
+        const token = p.replace(/^['"]|['"]$/g, "").trim();
+        if (token) result.positional.push(token);
       }
-      return cleaned;
+      return result;
     };
 
-    let colors = parseColors(colorsValue);
-    // If labels are present, prefer them for mapping
-    const extractLabel = (
-      src: string | undefined,
-      label: string
-    ): string | undefined => {
-      if (!src) return undefined;
-      const m = new RegExp(label + "\\s*[:=]\\s*([^,;\n|]+)", "i").exec(src);
-      if (!m) return undefined;
-      return m[1].replace(/^['"]|['"]$/g, "").trim();
-    };
-    const labeledProject = extractLabel(colorsValue, "project");
-    const labeledTender = extractLabel(colorsValue, "tender");
+    let colorConfig = parseColors(colorsValue);
     // If control property not provided, try dataset column 'colors' (first record)
-    if (colors.length === 0 && records.sortedRecordIds.length) {
+    if (
+      !colorConfig.positional.length &&
+      !Object.keys(colorConfig.keyed).length &&
+      recordIds.length
+    ) {
       try {
-        const firstRow = records.records[records.sortedRecordIds[0]];
+        const firstRow = records.records[recordIds[0]];
         const datasetColorsVal = firstRow.getFormattedValue("colors");
         if (datasetColorsVal) {
-          colors = parseColors(datasetColorsVal);
+          colorConfig = parseColors(datasetColorsVal);
         }
       } catch {}
     }
-    // Ensure first two entries exist (project, tender) -> light orange, light blue
-    // Respect user order strictly: colors[0] = project, colors[1] = tender.
-    if (colors.length === 0 && !labeledProject && !labeledTender) {
-      colors = ["#FFB74D", "#90CAF9"]; // defaults
-    }
-    // Build final ordered colors honoring labels and user order
-    const projectColorFinal = labeledProject || colors[0] || "#FFB74D";
-    const tenderColorFinal =
-      labeledTender || colors.find((c) => c !== projectColorFinal) || "#90CAF9";
-    colors = [
-      projectColorFinal,
-      tenderColorFinal,
-      ...colors.filter(
-        (c) => c !== projectColorFinal && c !== tenderColorFinal
-      ),
-    ];
-    // Debug log final mapping
+    // Debug log parsed mapping
     try {
-      console.log(
-        "[GanttView] Raw colors input:",
-        colorsValue,
-        "Mapped project/tender colors:",
-        colors[0],
-        colors[1]
-      );
+      console.log("[GanttView] Raw colors input:", colorsValue, "Parsed:", colorConfig);
     } catch (_) {}
+    const formatRules = this.parseFormatRules(context.parameters.formatRules?.raw);
+    // Extra dataset columns referenced by "field" rules
+    const ruleColumns = formatRules
+      .filter((r) => r.when === "field" && r.column)
+      .map((r) => r.column as string)
+      .filter((c, i, arr) => arr.indexOf(c) === i);
+    // Numeric dataset column summed per segment when totalsMode is "sum"
+    const totalsColumn = (context.parameters.totalsColumn?.raw || "").trim();
+    // First label seen for each normalized row type (e.g. "Bid" for "bid")
+    const rowTypeLabels: Record<string, string> = {};
 
-    const parseDateOrNull = (val: any): Date | null => {
-      const s = (val ?? "").toString().trim();
-      if (!s) return null;
-      const ms = Date.parse(s);
-      if (isNaN(ms)) return null;
-      const d = new Date(ms);
-      return isNaN(d.getTime()) ? null : d;
+    const dateOptions: DateParseOptions = {
+      format: context.parameters.dateFormat?.raw || "auto",
+      timeZone: context.parameters.dateTimeZone?.raw || "auto",
     };
     console.log("Hellooo");
 
   // Build data rows from dataset only
-  const dataRows = records.sortedRecordIds.map((sortedRowID, i) => {
+  const dataRows = recordIds.map((sortedRowID, i) => {
         var inputRow = records.records[sortedRowID];
         const recordId = (inputRow as any).getRecordId ? (inputRow as any).getRecordId() : String(sortedRowID || i);
         const sourceIdVal = inputRow.getFormattedValue("id");
-        const parseDateOrNull = (val: any): Date | null => { const s = (val ?? '').toString().trim(); if (!s) return null; const ms = Date.parse(s); if (isNaN(ms)) return null; const d = new Date(ms); return isNaN(d.getTime()) ? null : d; };
+        // Prefer the raw value (a Date when bound to a date column); unreadable text is kept for the row's warning
+        const dateErrors: { startDate?: string; endDate?: string } = {};
+        const readDate = (column: "startDate" | "endDate"): Date | null => {
+          let raw: unknown;
+          try { raw = inputRow.getValue(column); } catch {}
+          const formatted = inputRow.getFormattedValue(column);
+          const value = parseDateCell(raw, formatted, dateOptions);
+          if (value !== undefined) return value;
+          dateErrors[column] = formatted || String(raw);
+          return null;
+        };
+        const startDate = readDate("startDate");
+        const endDate = readDate("endDate");
         return {
           id: recordId,
           sourceId: sourceIdVal,
           name: inputRow.getFormattedValue("name"),
           assigned: inputRow.getFormattedValue("assigned"),
-          startDate: parseDateOrNull(inputRow.getFormattedValue("startDate")),
-          endDate: parseDateOrNull(inputRow.getFormattedValue("endDate")),
+          startDate,
+          endDate,
+          dateErrors: Object.keys(dateErrors).length ? dateErrors : undefined,
           rowType: ((): string => {
-            const raw = inputRow.getFormattedValue("rowType");
-            let norm = (raw || "").toString().trim().toLowerCase();
-            norm = norm.replace(/[^a-z]/g, "");
-            if (norm !== "project" && norm !== "tender" && norm !== "milestone") {
+            const raw = (inputRow.getFormattedValue("rowType") || "").toString().trim();
+            let norm = normalizeRowType(raw);
+            if (norm && !rowTypeLabels[norm]) rowTypeLabels[norm] = raw;
+            if (!norm) {
               const nameVal2 = (inputRow.getFormattedValue("name") || "").toLowerCase();
               if (nameVal2.includes("tender")) norm = "tender"; else norm = "unknown";
             }
             return norm;
           })(),
-          progress: parseFloat(inputRow.getFormattedValue("progress")),
+          progress: ((): number | null => {
+            // Prefer the raw decimal; the formatted value may carry separators or a % sign
+            const raw = inputRow.getValue("progress");
+            const val =
+              typeof raw === "number"
+                ? raw
+                : parseFloat(
+                    (inputRow.getFormattedValue("progress") || "").replace(/[^0-9.\-]/g, "")
+                  );
+            return isNaN(val) ? null : val;
+          })(),
           parentId: inputRow.getFormattedValue("parentId") ? inputRow.getFormattedValue("parentId") : "",
-          level: null,
-          milestones: [],
+          predecessors: ((): GanttDependency[] => {
+            // Optional column; unmapped property-sets may throw
+            try {
+              return this.parsePredecessors(inputRow.getFormattedValue("predecessors"));
+            } catch {
+              return [];
+            }
+          })(),
+          totalsValue: ((): number | null => {
+            if (!totalsColumn) return null;
+            // Columns outside the dataset view may throw
+            try {
+              const raw = inputRow.getValue(totalsColumn);
+              const val =
+                typeof raw === "number"
+                  ? raw
+                  : parseFloat(
+                      (inputRow.getFormattedValue(totalsColumn) || "").replace(/[^0-9.\-]/g, "")
+                    );
+              return isNaN(val) ? null : val;
+            } catch {
+              return null;
+            }
+          })(),
+          fields: ((): Record<string, string> => {
+            const fields: Record<string, string> = {};
+            ruleColumns.forEach((c) => {
+              // Columns outside the dataset view may throw
+              try {
+                fields[c] = (inputRow.getFormattedValue(c) || "").toString();
+              } catch {}
+            });
+            return fields;
+          })(),
         };
       });
+    // Legend / colour order: configured keys first (or project, tender by default),
+    // then any other row type found in the data. Milestones are drawn as markers.
+    const rowTypes: RowTypeStyle[] = [];
+    // Counts only the types that fall back to the palette, so it is used from its first colour
+    let paletteIndex = 0;
+    const addRowType = (type: string, color?: string) => {
+      if (!type || type === "unknown" || rowTypes.some((t) => t.type === type)) return;
+      const label = rowTypeLabels[type] || type;
+      rowTypes.push({
+        type,
+        label: label.charAt(0).toUpperCase() + label.slice(1),
+        color:
+          color ||
+          colorConfig.positional[rowTypes.length] ||
+          DEFAULT_ROW_TYPE_COLORS[type] ||
+          ROW_TYPE_PALETTE[paletteIndex++ % ROW_TYPE_PALETTE.length],
+      });
+    };
+    const keyedTypes = Object.keys(colorConfig.keyed);
+    if (keyedTypes.length) {
+      keyedTypes.forEach((t) => addRowType(t, colorConfig.keyed[t]));
+    } else {
+      addRowType("project");
+      addRowType("tender");
+    }
+    dataRows.forEach((r) => {
+      if (r.rowType !== "milestone") addRowType(r.rowType);
+    });
+    // Progress may be supplied as 0-1 fractions (progressScale). In auto mode the column is only
+    // taken as fractions when some value lies strictly between 0 and 1, so all-0/1 percentages stay put
+    const progressScale = context.parameters.progressScale?.raw || "auto";
+    const progressValues = dataRows
+      .map((r) => r.progress)
+      .filter((p): p is number => p !== null);
+    const isFraction =
+      progressScale === "fraction" ||
+      (progressScale === "auto" &&
+        progressValues.some((p) => p > 0 && p < 1) &&
+        progressValues.every((p) => p >= 0 && p <= 1));
+    if (isFraction) {
+      dataRows.forEach((r) => {
+        if (r.progress !== null) r.progress = r.progress * 100;
+      });
+    }
+    // Drop pending edits once the data source has caught up (e.g. after OnChange -> Patch -> refresh)
+    const sameDay = (a: Date | null, b: Date | undefined) =>
+      !!a && !!b && a.toDateString() === b.toDateString();
+    dataRows.forEach((r) => {
+      const key = r.sourceId || r.id;
+      const pending = this.pendingChanges[key];
+      if (!pending) return;
+      if (sameDay(r.startDate, pending.startDate)) delete pending.startDate;
+      if (sameDay(r.endDate, pending.endDate)) delete pending.endDate;
+      if (!pending.startDate && !pending.endDate)
+        delete this.pendingChanges[key];
+    });
+    // An app-supplied viewState replaces the current view when it changes, unless it is our own output echoed back
+    const viewStateInput = (context.parameters.viewState?.raw || "").trim();
+    if (viewStateInput && viewStateInput !== this.appliedViewStateInput) {
+      this.appliedViewStateInput = viewStateInput;
+      try {
+        if (viewStateInput !== JSON.stringify(this.viewState))
+          this.viewState = this.requestedViewState = JSON.parse(viewStateInput);
+      } catch (e) {
+        try { console.warn("[GanttView] viewState is not valid JSON:", e); } catch {}
+      }
+    }
     const props: IGanttViewControlProps = {
       name: "Project Tender Timeline",
       ganttStartDate: context.parameters.ganttStartDate.raw || new Date(),
@@ -209,10 +491,38 @@ export class GanttView
       expandDetails: context.parameters.expandDetails.raw,
       columnViewCount:
         (context.parameters as any).columnViewCount?.raw ?? undefined,
+  adjustableEndDate: context.parameters.adjustableEndDate?.raw || false,
+  adjustableStartDate: context.parameters.adjustableStartDate?.raw || false,
+  snapUnit: (context.parameters.snapUnit?.raw || "auto") as SnapUnit,
+  rollupProgress: context.parameters.rollupProgress?.raw || false,
+  rollupDates: context.parameters.rollupDates?.raw || false,
+  showAssigned: context.parameters.showAssigned?.raw || false,
+  assignedLabel: (context.parameters.assignedLabel?.raw || "none") as AssignedLabelMode,
+  groupBy: (context.parameters.groupBy?.raw || "none") as GroupByMode,
+  showCriticalPath: context.parameters.showCriticalPath?.raw || false,
+  fitToWindow: context.parameters.fitToWindow?.raw || false,
+  strings: this.strings,
+  locale: this.getLocale(context),
+  displayDateFormat: this.getDisplayDateFormat(context),
   showFilters: (context.parameters as any).showFilters?.raw || false,
   filtersText: (context.parameters as any).filtersText?.raw || '',
-  data: dataRows,
-      colors: colors,
+  loadStatus: loadStatus,
+  data: this.keepIfUnchanged("data", dataRows),
+      rowTypes: this.keepIfUnchanged("rowTypes", rowTypes),
+      formatRules: this.keepIfUnchanged("formatRules", formatRules),
+      totalsTypes: this.keepIfUnchanged(
+        "totalsTypes",
+        (context.parameters.totalsTypes?.raw || "")
+          .split(/[,;\n\|]/)
+          .map(normalizeRowType)
+          .filter(Boolean)
+      ),
+      totalsMode: (context.parameters.totalsMode?.raw || "count") as TotalsMode,
+      weekStart: Number(context.parameters.weekStart?.raw ?? 1),
+      weekLabel: (context.parameters.weekLabel?.raw || "number") as WeekLabelMode,
+      showResourceLoad: context.parameters.showResourceLoad?.raw || false,
+      resourceLoadMode: (context.parameters.resourceLoadMode?.raw || "items") as ResourceLoadMode,
+      resourceCapacity: context.parameters.resourceCapacity?.raw || 0,
       selectedId: this.selectedUid,
       onSelect: (uid: string, dataId?: string, rowType?: string | null) => {
         this.selectedUid = uid; // highlight
@@ -239,6 +549,45 @@ export class GanttView
         } catch {}
         this.notifyOutputChanged && this.notifyOutputChanged();
       },
+      onCriticalPathChange: (items: CriticalPathItem[]) => {
+        // Report by Items['id'] so the app can look the rows up
+        this.criticalPath = items.map((c) => {
+          const row = dataRows.find((r) => r.id === c.rowId);
+          return {
+            id: row && row.sourceId ? String(row.sourceId) : c.rowId,
+            slack: c.slack,
+            critical: c.critical,
+          };
+        });
+        this.notifyOutputChanged && this.notifyOutputChanged();
+      },
+      viewState: this.requestedViewState,
+      onViewStateChange: (viewState: GanttViewState) => {
+        this.viewState = viewState;
+        try {
+          context.mode.setControlState({ viewState: JSON.stringify(viewState) });
+        } catch {}
+        this.notifyOutputChanged && this.notifyOutputChanged();
+      },
+      onVisibleRangeChange: (start: Date, end: Date) => {
+        this.visibleStartDate = start;
+        this.visibleEndDate = end;
+        this.notifyOutputChanged && this.notifyOutputChanged();
+      },
+      onDatesChange: (rowId: string, change: BarDateChange) => {
+        const row = dataRows.find((r) => r.id === rowId);
+        // Output the source Items['id'] so Canvas can Patch the right record
+        const key = row && row.sourceId ? String(row.sourceId) : rowId;
+        const pending = this.pendingChanges[key] || { id: key };
+        if (change.startDate) pending.startDate = change.startDate;
+        if (change.endDate) pending.endDate = change.endDate;
+        this.pendingChanges[key] = pending;
+        this.editedId = key;
+        // Report both dates of the edited row so a single Patch can persist either edge
+        this.editedStartDate = pending.startDate || row?.startDate || undefined;
+        this.editedEndDate = pending.endDate || row?.endDate || undefined;
+        this.notifyOutputChanged && this.notifyOutputChanged();
+      },
     };
 
   return React.createElement(GanttViewControl, props);
@@ -252,9 +601,227 @@ export class GanttView
     return {
       selectedId: this.selectedId,
       selectedRowType: this.selectedRowType,
+      editedId: this.editedId,
+      editedStartDate: this.editedStartDate,
+      editedEndDate: this.editedEndDate,
+      visibleStartDate: this.visibleStartDate,
+      visibleEndDate: this.visibleEndDate,
+      viewState: this.viewState ? JSON.stringify(this.viewState) : undefined,
+      isLoading: this.isLoading,
+      loadedCount: this.loadedCount,
+      criticalPath: JSON.stringify(this.criticalPath),
+      pendingChanges: JSON.stringify(
+        Object.keys(this.pendingChanges).map((k) => {
+          const c = this.pendingChanges[k];
+          return {
+            id: c.id,
+            startDate: c.startDate ? this.toDateOnlyString(c.startDate) : undefined,
+            endDate: c.endDate ? this.toDateOnlyString(c.endDate) : undefined,
+          };
+        })
+      ),
     } as any;
   }
 
+  /**
+   * UI text from the resx file for the user's language; each key is read as "<Key>_Text"
+   * (sortBy -> SortBy_Text) and falls back to English when the resx has no entry.
+   */
+  private loadStrings(context: ComponentFramework.Context<IInputs>): GanttStrings {
+    const strings = { ...DEFAULT_STRINGS };
+    (Object.keys(strings) as (keyof GanttStrings)[]).forEach((key) => {
+      const resxKey = key.charAt(0).toUpperCase() + key.slice(1) + "_Text";
+      try {
+        const value = context.resources.getString(resxKey);
+        // Missing keys come back as the key itself (or empty in some hosts)
+        if (value && value !== resxKey) strings[key] = value;
+      } catch {}
+    });
+    return strings;
+  }
+
+  private getLocale(context: ComponentFramework.Context<IInputs>): string | undefined {
+    const languageId = context.userSettings?.languageId;
+    if (languageId && LCID_LOCALES[languageId]) return LCID_LOCALES[languageId];
+    return typeof navigator !== "undefined" ? navigator.language : undefined;
+  }
+
+  /**
+   * displayDateFormat when set, else the user's short date pattern from their settings.
+   * Undefined leaves dates to the locale's numeric format.
+   */
+  private getDisplayDateFormat(context: ComponentFramework.Context<IInputs>): string | undefined {
+    const format = (context.parameters.displayDateFormat?.raw || "").trim();
+    if (format) return format;
+    let pattern: string | undefined;
+    try {
+      pattern = context.userSettings.dateFormattingInfo.shortDatePattern;
+    } catch {}
+    return pattern ? toDayjsFormat(pattern) : undefined;
+  }
+
+  /**
+   * Hands back the object passed for this prop last time when the new one has the same
+   * content, so the control's memoised row model survives updates that leave the data alone.
+   */
+  private keepIfUnchanged<T>(key: string, value: T): T {
+    const signature = JSON.stringify(value);
+    const prev = this.stableProps[key];
+    if (prev && prev.signature === signature) return prev.value;
+    this.stableProps[key] = { signature, value };
+    return value;
+  }
+
+  /**
+   * Requests the next dataset page once the previous one has arrived, until every page is
+   * loaded or maxRecords is reached. Each arriving page calls updateView again.
+   */
+  private updatePaging(
+    records: ComponentFramework.PropertyTypes.DataSet,
+    maxRecords: number
+  ): LoadStatus {
+    const paging = records.paging;
+    const loaded = records.sortedRecordIds.length;
+    if (!paging) {
+      return { loaded, total: null, loading: !!records.loading, truncated: false, maxRecords };
+    }
+    if (!this.pagingInitialized) {
+      try { paging.setPageSize(Math.min(PAGE_SIZE, maxRecords)); } catch {}
+      this.pagingInitialized = true;
+    }
+    // A refresh or a new filter starts again from the first page
+    if (loaded < this.pageRequestedAt) this.pageRequestedAt = -1;
+    const hasMore = !!paging.hasNextPage;
+    let loading = !!records.loading;
+    // Only one request per record count, so a page that adds nothing ends the loop
+    if (!loading && hasMore && loaded < maxRecords && loaded > this.pageRequestedAt) {
+      this.pageRequestedAt = loaded;
+      try {
+        paging.loadNextPage();
+        loading = true;
+      } catch (e) {
+        try { console.warn("[GanttView] Loading the next page failed:", e); } catch {}
+      }
+    }
+    const total = paging.totalResultCount >= 0 ? paging.totalResultCount : null;
+    return {
+      loaded,
+      total,
+      loading,
+      truncated: loaded > maxRecords || (hasMore && loaded >= maxRecords),
+      maxRecords,
+    };
+  }
+
+  /**
+   * Parses a predecessors value into dependencies.
+   * Accepts a JSON array ([{"id":"T1","type":"SS","lag":2}] or ["T1"]) or a list such as
+   * "T1; T2 SS; T3 FF+2d; T4 -1d; T5+2d" where the type defaults to FS and the lag is in days.
+   */
+  private parsePredecessors(input?: string | null): GanttDependency[] {
+    const val = (input || "").trim();
+    if (!val) return [];
+    const types: DependencyType[] = ["FS", "SS", "FF", "SF"];
+    const toType = (t: any): DependencyType => {
+      const up = String(t || "").toUpperCase() as DependencyType;
+      return types.indexOf(up) >= 0 ? up : "FS";
+    };
+    if (val.startsWith("[")) {
+      try {
+        const arr = JSON.parse(val);
+        if (Array.isArray(arr)) {
+          return arr
+            .map((v) =>
+              typeof v === "object" && v
+                ? {
+                    id: String(v.id ?? "").trim(),
+                    type: toType(v.type),
+                    lag: Number(v.lag) || 0,
+                  }
+                : { id: String(v).trim(), type: "FS" as DependencyType, lag: 0 }
+            )
+            .filter((d) => d.id);
+        }
+      } catch (e) {
+        // fall through to list parsing
+      }
+    }
+    const result: GanttDependency[] = [];
+    val
+      .split(/[,;\n\|]/)
+      .map((p) => p.trim())
+      .filter(Boolean)
+      .forEach((p) => {
+        // The id runs to the first space, so ids such as "PRJ-001" are not read as a lag
+        const m = /^(\S+)(?:\s+(FS|SS|FF|SF))?(?:\s*([+-])\s*(\d+(?:\.\d+)?)\s*d?)?$/i.exec(p);
+        if (!m) return;
+        let [, id, , sign, amount] = m;
+        // A lag written against the id ("T5+2d") needs its "d", so "PRJ-001" stays an id
+        const joined = !m[2] && !amount ? /^(.+?)([+-])(\d+(?:\.\d+)?)d$/i.exec(id) : null;
+        if (joined) [, id, sign, amount] = joined;
+        const lag = amount ? parseFloat(amount) * (sign === "-" ? -1 : 1) : 0;
+        result.push({ id: id.trim(), type: toType(m[2]), lag });
+      });
+    return result;
+  }
+
+  /**
+   * Parses the formatRules input: a JSON array of rules, e.g.
+   * [{"name":"Overdue","when":"overdue","color":"#EF9A9A","icon":"!"},
+   *  {"name":"On hold","when":"field","column":"status","equals":"On hold","border":"#616161"}]
+   * Rules with an unknown condition or without a name are dropped.
+   */
+  private parseFormatRules(input?: string | null): FormatRule[] {
+    const val = (input || "").trim();
+    if (!val) return [];
+    const conditions: FormatCondition[] = [
+      "overdue",
+      "startsWithin",
+      "missingStart",
+      "missingEnd",
+      "field",
+    ];
+    let arr: any;
+    try {
+      arr = JSON.parse(val);
+    } catch (e) {
+      try { console.warn("[GanttView] formatRules is not valid JSON:", e); } catch {}
+      return [];
+    }
+    if (!Array.isArray(arr)) arr = [arr];
+    const str = (v: any): string | undefined =>
+      v === undefined || v === null || String(v).trim() === "" ? undefined : String(v).trim();
+    return arr
+      .filter((r: any) => r && typeof r === "object")
+      .map((r: any): FormatRule => {
+        // Condition names are matched case-insensitively ("startswithin")
+        const when = conditions.find(
+          (c) => c.toLowerCase() === String(r.when || "").toLowerCase()
+        ) as FormatCondition;
+        return {
+          name: str(r.name) || "",
+          when,
+          days: Number(r.days) || 0,
+          column: str(r.column),
+          equals: str(r.equals),
+          contains: str(r.contains),
+          color: str(r.color),
+          border: str(r.border),
+          icon: str(r.icon),
+        };
+      })
+      .filter((r: FormatRule) => r.name && r.when);
+  }
+
+  /**
+   * Formats a date as yyyy-MM-dd (local calendar day) for JSON outputs.
+   */
+  private toDateOnlyString(d: Date): string {
+    const mon = String(d.getMonth() + 1).padStart(2, "0");
+    const day = String(d.getDate()).padStart(2, "0");
+    return `${d.getFullYear()}-${mon}-${day}`;
+  }
+
   /**
    * Called when the control is to be removed from the DOM tree. Controls should use this call for cleanup.
    * i.e. cancelling any pending remote calls, removing listeners, etc.